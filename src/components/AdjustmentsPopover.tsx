@@ -0,0 +1,98 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useLanguage } from '@/hooks/useLanguage';
+import {
+  ADJUSTMENT_PRESETS,
+  ADJUSTMENT_RANGES,
+  DEFAULT_ADJUSTMENTS,
+  isDefaultAdjustments,
+  type AdjustmentKey,
+  type SlotAdjustments,
+} from '@/lib/adjustments';
+
+interface AdjustmentsPopoverProps {
+  /** Heading that says whether the adjustments affect one photo or all of them. */
+  title: string;
+  value: SlotAdjustments;
+  onChange: (adjustments: SlotAdjustments) => void;
+  /** The trigger button. */
+  children: React.ReactNode;
+}
+
+const ADJUSTMENT_LABELS: Record<AdjustmentKey, string> = {
+  brightness: 'adjustBrightness',
+  contrast: 'adjustContrast',
+  saturation: 'adjustSaturation',
+  warmth: 'adjustWarmth',
+  blur: 'adjustBlur',
+  grayscale: 'adjustGrayscale',
+  sepia: 'adjustSepia',
+};
+
+const SLIDER_STEPS = 100;
+
+// Rounded so that stepping back to the middle lands exactly on the neutral value
+const fromStep = (step: number, min: number, max: number) =>
+  Math.round((min + (step / SLIDER_STEPS) * (max - min)) * 10000) / 10000;
+
+const isPreset = (value: SlotAdjustments, preset: SlotAdjustments) =>
+  (Object.keys(preset) as AdjustmentKey[]).every(key => value[key] === preset[key]);
+
+const AdjustmentsPopover: React.FC<AdjustmentsPopoverProps> = ({ title, value, onChange, children }) => {
+  const { t } = useLanguage();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold">{title}</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            onClick={() => onChange(DEFAULT_ADJUSTMENTS)}
+            disabled={isDefaultAdjustments(value)}
+          >
+            {t("adjustReset")}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {ADJUSTMENT_PRESETS.map((preset) => (
+            <Button
+              key={preset.id}
+              size="sm"
+              variant={isPreset(value, preset.adjustments) ? 'default' : 'outline'}
+              className="h-7 px-2 text-xs"
+              onClick={() => onChange(preset.adjustments)}
+            >
+              {t(preset.nameKey)}
+            </Button>
+          ))}
+        </div>
+
+        {(Object.keys(ADJUSTMENT_RANGES) as AdjustmentKey[]).map((key) => {
+          const [min, max] = ADJUSTMENT_RANGES[key];
+          return (
+            <div key={key} className="space-y-2">
+              <Label className="text-xs">{t(ADJUSTMENT_LABELS[key])}</Label>
+              <Slider
+                value={[((value[key] - min) / (max - min)) * SLIDER_STEPS]}
+                onValueChange={([step]) => onChange({ ...value, [key]: fromStep(step, min, max) })}
+                min={0}
+                max={SLIDER_STEPS}
+                step={1}
+              />
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AdjustmentsPopover;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/hooks/useLanguage';
+import { CANVAS_PRESETS, clampCanvasAspect } from '@/lib/layouts';
+
+interface CanvasAspectSelectorProps {
+  /** Width divided by height, or null while the canvas follows the layout. */
+  value: number | null;
+  onChange: (aspect: number | null) => void;
+}
+
+const matchesPreset = (value: number | null) =>
+  value !== null && CANVAS_PRESETS.some(preset => Math.abs(preset.aspect - value) < 1e-3);
+
+const CanvasAspectSelector: React.FC<CanvasAspectSelectorProps> = ({ value, onChange }) => {
+  const [customOpen, setCustomOpen] = useState(false);
+  const [customWidth, setCustomWidth] = useState(2);
+  const [customHeight, setCustomHeight] = useState(1);
+  const { t } = useLanguage();
+
+  const applyCustom = (width: number, height: number) => {
+    if (width > 0 && height > 0) onChange(clampCanvasAspect(width / height));
+  };
+
+  // A restored session may hold a ratio that no preset matches
+  const custom = customOpen || (value !== null && !matchesPreset(value));
+
+  const buttonClass = (active: boolean) => (active ? 'gradient-primary text-white' : 'glass border-primary/20');
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-6">
+      <span className="text-sm font-medium text-muted-foreground">{t("canvasAspect")}</span>
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          onClick={() => {
+            setCustomOpen(false);
+            onChange(null);
+          }}
+          variant={!custom && value === null ? 'default' : 'outline'}
+          size="sm"
+          className={buttonClass(!custom && value === null)}
+        >
+          {t("canvasFitLayout")}
+        </Button>
+        {CANVAS_PRESETS.map((preset) => {
+          const active = !custom && value !== null && Math.abs(preset.aspect - value) < 1e-3;
+          return (
+            <Button
+              key={preset.id}
+              onClick={() => {
+                setCustomOpen(false);
+                onChange(preset.aspect);
+              }}
+              variant={active ? 'default' : 'outline'}
+              size="sm"
+              className={buttonClass(active)}
+            >
+              {t(preset.nameKey)}
+            </Button>
+          );
+        })}
+        <Button
+          onClick={() => {
+            setCustomOpen(true);
+            applyCustom(customWidth, customHeight);
+          }}
+          variant={custom ? 'default' : 'outline'}
+          size="sm"
+          className={buttonClass(custom)}
+        >
+          {t("canvasCustom")}
+        </Button>
+      </div>
+      {custom && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={customWidth}
+            onChange={(e) => setCustomWidth(Number(e.target.value))}
+            onBlur={() => applyCustom(customWidth, customHeight)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="w-20 h-9"
+            aria-label={t("canvasCustomWidth")}
+          />
+          <span className="text-muted-foreground">:</span>
+          <Input
+            type="number"
+            min={1}
+            value={customHeight}
+            onChange={(e) => setCustomHeight(Number(e.target.value))}
+            onBlur={() => applyCustom(customWidth, customHeight)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="w-20 h-9"
+            aria-label={t("canvasCustomHeight")}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CanvasAspectSelector;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface ColorInputProps {
+  value: string;
+  onChange: (color: string) => void;
+  label: string;
+}
+
+const ColorInput: React.FC<ColorInputProps> = ({ value, onChange, label }) => (
+  <input
+    type="color"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="w-8 h-8 rounded-md border border-input bg-transparent cursor-pointer p-0.5"
+    aria-label={label}
+  />
+);
+
+export default ColorInput;
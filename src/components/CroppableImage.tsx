@@ -0,0 +1,105 @@
+import React, { useEffect, useRef } from 'react';
+import { clampCrop, cropTransform, type SlotCrop } from '@/lib/crop';
+
+interface CroppableImageProps {
+  src: string;
+  alt: string;
+  crop: SlotCrop;
+  /** CSS filter of the photo adjustments. */
+  filter?: string;
+  onCropChange: (crop: SlotCrop) => void;
+}
+
+const ZOOM_SENSITIVITY = 0.0015;
+const ROTATE_SENSITIVITY = 0.1;
+
+/**
+ * Image preview that can be panned by dragging and zoomed with the mouse wheel
+ * (hold Shift to rotate instead). Double-click resets the framing.
+ */
+const CroppableImage: React.FC<CroppableImageProps> = ({ src, alt, crop, filter = 'none', onCropChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: SlotCrop } | null>(null);
+
+  // Kept in refs so the native wheel listener does not need to be re-attached on every change.
+  const cropRef = useRef(crop);
+  const onCropChangeRef = useRef(onCropChange);
+  cropRef.current = crop;
+  onCropChangeRef.current = onCropChange;
+
+  const applyCrop = (next: SlotCrop) => {
+    const container = containerRef.current;
+    const image = imageRef.current;
+    if (!container || !image || !image.naturalWidth) return;
+
+    const imageAspect = image.naturalWidth / image.naturalHeight;
+    const cellAspect = container.offsetWidth / container.offsetHeight;
+    onCropChangeRef.current(clampCrop(next, imageAspect, cellAspect));
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // React registers wheel listeners as passive, so preventDefault needs a native listener.
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = cropRef.current;
+      if (e.shiftKey) {
+        applyCrop({ ...current, rotation: current.rotation + e.deltaY * ROTATE_SENSITIVITY });
+      } else {
+        applyCrop({ ...current, scale: current.scale * (1 - e.deltaY * ZOOM_SENSITIVITY) });
+      }
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const container = containerRef.current;
+    if (!start || !container) return;
+
+    applyCrop({
+      ...start.crop,
+      x: start.crop.x + (e.clientX - start.pointerX) / container.offsetWidth,
+      y: start.crop.y + (e.clientY - start.pointerY) / container.offsetHeight,
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragStart.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full h-full overflow-hidden cursor-grab active:cursor-grabbing touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => applyCrop({ x: 0, y: 0, scale: 1, rotation: crop.rotation })}
+    >
+      <img
+        ref={imageRef}
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="w-full h-full object-cover select-none pointer-events-none"
+        style={{ transform: cropTransform(crop), filter }}
+      />
+    </div>
+  );
+};
+
+export default CroppableImage;
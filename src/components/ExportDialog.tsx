@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FPS_OPTIONS,
+  DEFAULT_ANIMATION_SETTINGS,
+  hasAnimatedSlots,
+  MAX_ANIMATION_SIZE,
+  type AnimationFormat,
+  type AnimationSettings,
+} from '@/lib/animation';
+import type { ImageSlot } from '@/lib/grid';
+import type { GridStyle } from '@/lib/gridStyle';
+import type { Layout } from '@/lib/layouts';
+import { canvasSizeForLayout, exportGrid, type PageOverlays } from '@/lib/renderGrid';
+import type { Watermark } from '@/lib/watermark';
+import {
+  clampExportSize,
+  EXPORT_FORMATS,
+  EXPORT_SIZE_PRESETS,
+  formatFileSize,
+  MAX_EXPORT_SIZE,
+  MIN_EXPORT_SIZE,
+  type ExportFormat,
+  type ExportSettings,
+} from '@/lib/exportSettings';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slots: ImageSlot[];
+  layout: Layout;
+  style: GridStyle;
+  overlays: PageOverlays;
+  watermark: Watermark;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onExport: () => Promise<void>;
+  /** Exports the page as an animation; `onProgress` receives the share of frames done. */
+  onExportAnimation: (animation: AnimationSettings, onProgress: (progress: number) => void) => Promise<void>;
+}
+
+const ESTIMATE_DELAY = 800;
+/** Long edge of the render the size estimate is taken from. */
+const ESTIMATE_SIZE = 1024;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  slots,
+  layout,
+  style,
+  overlays,
+  watermark,
+  settings,
+  onSettingsChange,
+  onExport,
+  onExportAnimation,
+}) => {
+  const [customSize, setCustomSize] = useState(!EXPORT_SIZE_PRESETS.includes(settings.size));
+  const [isAnimated, setIsAnimated] = useState(false);
+  const [animation, setAnimation] = useState<AnimationSettings>(DEFAULT_ANIMATION_SETTINGS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [estimateFailed, setEstimateFailed] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const canAnimate = useMemo(() => hasAnimatedSlots(slots), [slots]);
+  const animate = canAnimate && isAnimated;
+  const { width, height } = canvasSizeForLayout(layout, animate ? Math.min(settings.size, MAX_ANIMATION_SIZE) : settings.size);
+
+  // Encode the image in the background at a reduced size and scale the result by the pixel
+  // count, which is close enough for an estimate and spares rendering up to 8192 px on every change.
+  // Animations take too long to encode for a live estimate
+  useEffect(() => {
+    if (!open || animate) return;
+
+    let cancelled = false;
+    setEstimate(null);
+    setEstimateFailed(false);
+    const timer = window.setTimeout(async () => {
+      const size = Math.min(settings.size, ESTIMATE_SIZE);
+      try {
+        const blob = await exportGrid(slots, layout, style, overlays, { ...settings, size }, watermark);
+        if (!cancelled) setEstimate(Math.round(blob.size * (settings.size / size) ** 2));
+      } catch {
+        if (!cancelled) setEstimateFailed(true);
+      }
+    }, ESTIMATE_DELAY);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [open, animate, slots, layout, style, overlays, watermark, settings]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      if (animate) {
+        setProgress(0);
+        await onExportAnimation(animation, setProgress);
+      } else {
+        await onExport();
+      }
+      onOpenChange(false);
+    } catch {
+      toast({
+        title: t("downloadError"),
+        description: t("downloadErrorDesc"),
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("exportTitle")}</DialogTitle>
+          <DialogDescription>{t("exportDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {canAnimate && (
+            <ToggleGroup
+              type="single"
+              value={animate ? 'animated' : 'still'}
+              onValueChange={(value) => value && setIsAnimated(value === 'animated')}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="still">{t("exportStill")}</ToggleGroupItem>
+              <ToggleGroupItem value="animated">{t("exportAnimated")}</ToggleGroupItem>
+            </ToggleGroup>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t("exportSize")}</Label>
+            <div className="flex flex-wrap gap-2">
+              {EXPORT_SIZE_PRESETS.map((size) => (
+                <Button
+                  key={size}
+                  size="sm"
+                  variant={!customSize && settings.size === size ? 'default' : 'outline'}
+                  onClick={() => {
+                    setCustomSize(false);
+                    onSettingsChange({ ...settings, size });
+                  }}
+                >
+                  {size}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant={customSize ? 'default' : 'outline'}
+                onClick={() => setCustomSize(true)}
+              >
+                {t("exportCustom")}
+              </Button>
+            </div>
+            {customSize && (
+              <Input
+                type="number"
+                min={MIN_EXPORT_SIZE}
+                max={MAX_EXPORT_SIZE}
+                defaultValue={settings.size}
+                onBlur={(e) => onSettingsChange({ ...settings, size: clampExportSize(Number(e.target.value)) })}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              />
+            )}
+          </div>
+
+          {animate ? (
+            <>
+              <div className="space-y-2">
+                <Label>{t("exportFormat")}</Label>
+                <div className="flex gap-2">
+                  {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((format) => (
+                    <Button
+                      key={format}
+                      size="sm"
+                      variant={animation.format === format ? 'default' : 'outline'}
+                      onClick={() => setAnimation({ ...animation, format })}
+                    >
+                      {ANIMATION_FORMATS[format].label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <Label>{t("exportFrameRate")}</Label>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={String(animation.fps)}
+                    onValueChange={(fps) => fps && setAnimation({ ...animation, fps: Number(fps) })}
+                  >
+                    {ANIMATION_FPS_OPTIONS.map((fps) => (
+                      <ToggleGroupItem key={fps} value={String(fps)}>{fps} fps</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="export-loop">{t("exportLoop")}</Label>
+                  <Switch
+                    id="export-loop"
+                    checked={animation.loop}
+                    onCheckedChange={(loop) => setAnimation({ ...animation, loop })}
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label>{t("exportFormat")}</Label>
+              <div className="flex gap-2">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant={settings.format === format ? 'default' : 'outline'}
+                    onClick={() => onSettingsChange({ ...settings, format })}
+                  >
+                    {EXPORT_FORMATS[format].label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <Label>
+              {t("exportQuality")}{' '}
+              {(animate ? animation.format !== 'webp' : settings.format === 'png') ? '' : `${Math.round(settings.quality * 100)}%`}
+            </Label>
+            <Slider
+              value={[settings.quality * 100]}
+              onValueChange={([value]) => onSettingsChange({ ...settings, quality: value / 100 })}
+              min={50}
+              max={100}
+              step={1}
+              disabled={animate ? animation.format !== 'webp' : settings.format === 'png'}
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {width} × {height} px ·{' '}
+            {animate ? (
+              t("exportAnimatedHint")
+            ) : (
+              <>
+                {t("exportEstimate")}{' '}
+                {estimateFailed
+                  ? '—'
+                  : estimate === null
+                    ? <Loader2 className="inline w-3 h-3 animate-spin" />
+                    : `≈ ${formatFileSize(estimate)}`}
+              </>
+            )}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting} className="gradient-primary text-white">
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {t("downloadGrid")}
+            {progress !== null && ` ${Math.round(progress * 100)}%`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/hooks/useLanguage';
+import { DEFAULT_GRID_SIZE, GRID_PRESETS, MAX_GRID_DIMENSION, MIN_GRID_DIMENSION, type GridSize } from '@/lib/grid';
+
+interface GridSizeSelectorProps {
+  /** The current uniform grid, or null while a collage template is in use. */
+  value: GridSize | null;
+  onChange: (size: GridSize) => void;
+}
+
+const dimensions = Array.from(
+  { length: MAX_GRID_DIMENSION - MIN_GRID_DIMENSION + 1 },
+  (_, i) => MIN_GRID_DIMENSION + i
+);
+
+const GridSizeSelector: React.FC<GridSizeSelectorProps> = ({ value, onChange }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-6">
+      <span className="text-sm font-medium text-muted-foreground">{t("gridSize")}</span>
+      <div className="flex flex-wrap gap-2">
+        {GRID_PRESETS.map((preset) => {
+          const active = preset.rows === value?.rows && preset.cols === value?.cols;
+          return (
+            <Button
+              key={`${preset.rows}x${preset.cols}`}
+              onClick={() => onChange(preset)}
+              variant={active ? 'default' : 'outline'}
+              size="sm"
+              className={active ? 'gradient-primary text-white' : 'glass border-primary/20'}
+            >
+              {preset.rows}×{preset.cols}
+            </Button>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2">
+        <Select
+          value={value ? String(value.rows) : ''}
+          onValueChange={(rows) => onChange({ ...(value ?? DEFAULT_GRID_SIZE), rows: Number(rows) })}
+        >
+          <SelectTrigger className="w-24 h-9" aria-label={t("rows")}>
+            <SelectValue placeholder={t("rows")} />
+          </SelectTrigger>
+          <SelectContent>
+            {dimensions.map((n) => (
+              <SelectItem key={n} value={String(n)}>{n} {t("rows")}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">×</span>
+        <Select
+          value={value ? String(value.cols) : ''}
+          onValueChange={(cols) => onChange({ ...(value ?? DEFAULT_GRID_SIZE), cols: Number(cols) })}
+        >
+          <SelectTrigger className="w-24 h-9" aria-label={t("columns")}>
+            <SelectValue placeholder={t("columns")} />
+          </SelectTrigger>
+          <SelectContent>
+            {dimensions.map((n) => (
+              <SelectItem key={n} value={String(n)}>{n} {t("columns")}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default GridSizeSelector;
@@ -0,0 +1,219 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { GripVertical, ImageIcon, Info, Maximize, RotateCw, Shapes, SlidersHorizontal, Type, X } from 'lucide-react';
+import AdjustmentsPopover from '@/components/AdjustmentsPopover';
+import CroppableImage from '@/components/CroppableImage';
+import PhotoInfoPopover from '@/components/PhotoInfoPopover';
+import TextOverlay from '@/components/TextOverlay';
+import TilePopover from '@/components/TilePopover';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { SlotAdjustments } from '@/lib/adjustments';
+import { DEFAULT_CROP, type SlotCrop } from '@/lib/crop';
+import { isFilled, isTile, SLOT_DRAG_TYPE, type ImageSlot, type SlotTile } from '@/lib/grid';
+import { backgroundCss } from '@/lib/gridStyle';
+
+interface GridSlotProps {
+  slot: ImageSlot;
+  /** Position and size of the slot's layout cell, plus its corners, border and shadow. */
+  style: React.CSSProperties;
+  /** CSS filter and soft-light tints of the grid-wide and per-photo adjustments. */
+  imageFilter: string;
+  tints: string[];
+  /** Width divided by height of the canvas, for the preview lengths of tile text. */
+  canvasAspect: number;
+  /** Long edge of the export, used to show tile font sizes in pixels. */
+  exportSize: number;
+  isDragOver: boolean;
+  /** This slot's image is picked up for a keyboard/touch move. */
+  isPicked: boolean;
+  /** Another slot is picked up, so this one is a drop target. */
+  isMoveTarget: boolean;
+  onDrop: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDragLeave: (e: React.DragEvent) => void;
+  onCropChange: (crop: SlotCrop) => void;
+  onAdjustmentsChange: (adjustments: SlotAdjustments) => void;
+  /** `key` names the tile setting being changed, so one slider drag becomes one undo step. */
+  onTileChange: (tile: SlotTile, key: string) => void;
+  /** Adds a caption that belongs to this slot's cell. */
+  onAddText: () => void;
+  onRemove: () => void;
+  onPick: () => void;
+  onMoveHere: () => void;
+  onHandleKeyDown: (e: React.KeyboardEvent) => void;
+}
+
+const GridSlot: React.FC<GridSlotProps> = ({
+  slot,
+  style,
+  imageFilter,
+  tints,
+  canvasAspect,
+  exportSize,
+  isDragOver,
+  isPicked,
+  isMoveTarget,
+  onDrop,
+  onDragOver,
+  onDragLeave,
+  onCropChange,
+  onAdjustmentsChange,
+  onTileChange,
+  onAddText,
+  onRemove,
+  onPick,
+  onMoveHere,
+  onHandleKeyDown,
+}) => {
+  const { t } = useLanguage();
+
+  const { content } = slot;
+  const tile = isTile(content) ? content : null;
+
+  return (
+    <div
+      className={`grid-slot group overflow-hidden ${
+        isFilled(slot) ? 'filled' : 'empty'
+      } ${isDragOver ? 'drag-over' : ''} ${isPicked ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+      style={style}
+      data-slot={slot.id}
+      onDrop={onDrop}
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+    >
+      {content.type === 'image' && (
+        <>
+          <CroppableImage
+            src={content.preview}
+            alt={`${t("position")} ${slot.id + 1}`}
+            crop={slot.crop}
+            filter={imageFilter}
+            onCropChange={onCropChange}
+          />
+          {tints.map((tint, index) => (
+            <div
+              key={index}
+              className="absolute inset-0 pointer-events-none"
+              style={{ background: tint, mixBlendMode: 'soft-light' }}
+            />
+          ))}
+        </>
+      )}
+      {tile && (
+        <div className="absolute inset-0" style={{ background: backgroundCss(tile.type === 'text' ? tile.background : tile) }}>
+          {tile.type === 'text' && (
+            <TextOverlay
+              layer={tile}
+              aspect={canvasAspect}
+              onChange={(patch, key) => onTileChange({ ...tile, ...patch }, key)}
+            />
+          )}
+        </div>
+      )}
+      {!isFilled(slot) && (
+        <div className="w-full h-full flex items-center justify-center">
+          <div className="text-center">
+            <ImageIcon className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+            <span className="text-xs text-muted-foreground">
+              {t("position")} {slot.id + 1}
+            </span>
+          </div>
+        </div>
+      )}
+      {/* One toolbar for every kind of content, so the tile popover stays open when an empty slot becomes a tile */}
+      <div className="absolute top-2 left-2 flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200">
+        {isFilled(slot) && (
+          <Button
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(SLOT_DRAG_TYPE, String(slot.id));
+              e.dataTransfer.effectAllowed = 'move';
+              const cell = e.currentTarget.closest('.grid-slot');
+              if (cell) e.dataTransfer.setDragImage(cell, 20, 20);
+            }}
+            onClick={onPick}
+            onKeyDown={onHandleKeyDown}
+            data-slot-handle={slot.id}
+            size="sm"
+            variant="secondary"
+            className="w-8 h-8 p-0 cursor-move"
+            title={t("moveHandle")}
+            aria-label={t("moveHandle")}
+            aria-pressed={isPicked}
+          >
+            <GripVertical className="w-4 h-4" />
+          </Button>
+        )}
+        {content.type === 'image' ? (
+          <>
+            <Button
+              onClick={() => onCropChange({ ...slot.crop, rotation: (slot.crop.rotation + 90) % 360 })}
+              size="sm"
+              variant="secondary"
+              className="w-8 h-8 p-0"
+              title={t("rotate")}
+            >
+              <RotateCw className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => onCropChange(DEFAULT_CROP)}
+              size="sm"
+              variant="secondary"
+              className="w-8 h-8 p-0"
+              title={t("resetCrop")}
+            >
+              <Maximize className="w-4 h-4" />
+            </Button>
+            <AdjustmentsPopover title={t("adjustPhoto")} value={slot.adjustments} onChange={onAdjustmentsChange}>
+              <Button size="sm" variant="secondary" className="w-8 h-8 p-0" title={t("adjustPhoto")}>
+                <SlidersHorizontal className="w-4 h-4" />
+              </Button>
+            </AdjustmentsPopover>
+            <PhotoInfoPopover file={content.file} metadata={content.metadata}>
+              <Button size="sm" variant="secondary" className="w-8 h-8 p-0" title={t("photoInfo")}>
+                <Info className="w-4 h-4" />
+              </Button>
+            </PhotoInfoPopover>
+          </>
+        ) : (
+          <TilePopover value={tile} exportSize={exportSize} onChange={onTileChange}>
+            <Button size="sm" variant="secondary" className="w-8 h-8 p-0" title={t("tileTitle")}>
+              <Shapes className="w-4 h-4" />
+            </Button>
+          </TilePopover>
+        )}
+        {isFilled(slot) && (
+          <Button
+            onClick={onAddText}
+            size="sm"
+            variant="secondary"
+            className="w-8 h-8 p-0"
+            title={t("textAddCaption")}
+          >
+            <Type className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {isFilled(slot) && (
+        <Button
+          onClick={onRemove}
+          size="sm"
+          variant="destructive"
+          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 w-8 h-8 p-0"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+      {isMoveTarget && (
+        <button
+          type="button"
+          onClick={onMoveHere}
+          className="absolute inset-0 z-10 bg-primary/10 hover:bg-primary/25 focus-visible:bg-primary/25 focus-visible:outline-none transition-colors"
+          aria-label={`${t("moveHere")} ${slot.id + 1}`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GridSlot;
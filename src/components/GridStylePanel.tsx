@@ -0,0 +1,152 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ImagePlus, Palette } from 'lucide-react';
+import ColorInput from '@/components/ColorInput';
+import { useLanguage } from '@/hooks/useLanguage';
+import { STYLE_LIMITS, type BackgroundFill, type GridStyle, type StyleLength } from '@/lib/gridStyle';
+
+interface GridStylePanelProps {
+  value: GridStyle;
+  /** Long edge of the export, used to show lengths in pixels. */
+  exportSize: number;
+  /** `key` names the setting being changed, so one slider drag becomes one undo step. */
+  onChange: (style: Partial<GridStyle>, key: string) => void;
+  onBackgroundImage: (file: File) => void;
+}
+
+const LENGTH_LABELS: Record<StyleLength, string> = {
+  gap: 'styleGap',
+  padding: 'stylePadding',
+  radius: 'styleRadius',
+  borderWidth: 'styleBorder',
+};
+
+const SLIDER_STEPS = 100;
+
+const GridStylePanel: React.FC<GridStylePanelProps> = ({ value, exportSize, onChange, onBackgroundImage }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLanguage();
+  const { background } = value;
+
+  const setBackground = (fill: BackgroundFill, key = 'background') => onChange({ background: fill }, key);
+
+  const switchBackground = (type: BackgroundFill['type']) => {
+    if (type === 'solid') setBackground({ type, color: background.type === 'gradient' ? background.from : '#ffffff' });
+    if (type === 'gradient') setBackground({ type, from: background.type === 'solid' ? background.color : '#fdf2f8', to: '#e0e7ff', angle: 135 });
+    if (type === 'image') imageInputRef.current?.click();
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="glass border-primary/20">
+          <Palette className="w-4 h-4 mr-1" />
+          {t("styleTitle")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-5">
+        {(Object.keys(STYLE_LIMITS) as StyleLength[]).map((length) => (
+          <div key={length} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t(LENGTH_LABELS[length])}</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">{Math.round(value[length] * exportSize)} px</span>
+                {length === 'borderWidth' && (
+                  <ColorInput
+                    value={value.borderColor}
+                    onChange={(borderColor) => onChange({ borderColor }, 'borderColor')}
+                    label={t("styleBorderColor")}
+                  />
+                )}
+              </div>
+            </div>
+            <Slider
+              value={[(value[length] / STYLE_LIMITS[length]) * SLIDER_STEPS]}
+              onValueChange={([step]) => onChange({ [length]: (step / SLIDER_STEPS) * STYLE_LIMITS[length] }, length)}
+              min={0}
+              max={SLIDER_STEPS}
+              step={1}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="style-shadow">{t("styleShadow")}</Label>
+          <Switch id="style-shadow" checked={value.shadow} onCheckedChange={(shadow) => onChange({ shadow }, 'shadow')} />
+        </div>
+
+        <div className="space-y-3">
+          <Label>{t("styleBackground")}</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={background.type}
+            onValueChange={(type) => type && switchBackground(type as BackgroundFill['type'])}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="solid">{t("styleSolid")}</ToggleGroupItem>
+            <ToggleGroupItem value="gradient">{t("styleGradient")}</ToggleGroupItem>
+            <ToggleGroupItem value="image">{t("styleImage")}</ToggleGroupItem>
+          </ToggleGroup>
+
+          {background.type === 'solid' && (
+            <ColorInput
+              value={background.color}
+              onChange={(color) => setBackground({ ...background, color }, 'backgroundColor')}
+              label={t("styleSolid")}
+            />
+          )}
+          {background.type === 'gradient' && (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <ColorInput
+                  value={background.from}
+                  onChange={(from) => setBackground({ ...background, from }, 'gradientFrom')}
+                  label={t("styleGradientFrom")}
+                />
+                <ColorInput
+                  value={background.to}
+                  onChange={(to) => setBackground({ ...background, to }, 'gradientTo')}
+                  label={t("styleGradientTo")}
+                />
+              </div>
+              <Slider
+                value={[background.angle]}
+                onValueChange={([angle]) => setBackground({ ...background, angle }, 'gradientAngle')}
+                min={0}
+                max={360}
+                step={5}
+                aria-label={t("styleGradientAngle")}
+              />
+            </div>
+          )}
+          {background.type === 'image' && (
+            <Button variant="outline" size="sm" onClick={() => imageInputRef.current?.click()}>
+              <ImagePlus className="w-4 h-4 mr-1" />
+              {t("styleImageReplace")}
+            </Button>
+          )}
+        </div>
+
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file?.type.startsWith('image/')) onBackgroundImage(file);
+            e.target.value = '';
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default GridStylePanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Images, X } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { SLOT_DRAG_TYPE, TRAY_DRAG_TYPE, type LibraryImage } from '@/lib/grid';
+
+interface ImageTrayProps {
+  library: LibraryImage[];
+  /** Previews currently shown in a grid slot. */
+  placed: Set<string>;
+  pickedPreview: string | null;
+  onPick: (preview: string) => void;
+  onRemove: (preview: string) => void;
+  /** A slot was dragged onto the tray. */
+  onReturnSlot: (slotId: number) => void;
+}
+
+/**
+ * Filmstrip of every imported image. Images that are not in the grid are
+ * highlighted and can be dragged (or tapped, then a slot tapped) into a cell.
+ */
+const ImageTray: React.FC<ImageTrayProps> = ({ library, placed, pickedPreview, onPick, onRemove, onReturnSlot }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const { t } = useLanguage();
+  const unplacedCount = library.filter(image => !placed.has(image.preview)).length;
+
+  return (
+    <div
+      className={`mt-6 rounded-xl border-2 border-dashed p-3 transition-colors ${
+        isDragOver ? 'border-primary bg-primary/5' : 'border-border'
+      }`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(SLOT_DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        if (!e.dataTransfer.types.includes(SLOT_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(false);
+        onReturnSlot(Number(e.dataTransfer.getData(SLOT_DRAG_TYPE)));
+      }}
+    >
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <Images className="w-4 h-4 text-primary" />
+        <span className="font-medium">{t("trayTitle")} ({library.length})</span>
+        {unplacedCount > 0 && (
+          <span className="text-amber-600 dark:text-amber-400">
+            · {unplacedCount} {t("trayUnplaced")}
+          </span>
+        )}
+      </div>
+
+      {library.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-2">{t("trayEmpty")}</p>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {library.map((image) => {
+            const isPlaced = placed.has(image.preview);
+            const isPicked = pickedPreview === image.preview;
+            return (
+              <div
+                key={image.preview}
+                className={`relative shrink-0 w-16 h-16 rounded-lg overflow-hidden group ${
+                  isPicked ? 'ring-2 ring-primary ring-offset-2' : isPlaced ? 'opacity-60' : 'ring-2 ring-amber-400'
+                }`}
+                title={`${image.file.name}${isPlaced ? '' : ` · ${t("trayNotInGrid")}`}`}
+              >
+                <button
+                  type="button"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(TRAY_DRAG_TYPE, image.preview);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onClick={() => onPick(image.preview)}
+                  className="w-full h-full cursor-move"
+                  aria-label={`${image.file.name}${isPlaced ? '' : ` · ${t("trayNotInGrid")}`}`}
+                  aria-pressed={isPicked}
+                >
+                  <img src={image.preview} alt="" className="w-full h-full object-cover" draggable={false} />
+                </button>
+                {isPlaced && (
+                  <Check className="absolute bottom-1 left-1 w-4 h-4 rounded-full bg-primary text-primary-foreground p-0.5 pointer-events-none" />
+                )}
+                <Button
+                  onClick={() => onRemove(image.preview)}
+                  size="sm"
+                  variant="destructive"
+                  className="absolute top-0.5 right-0.5 w-5 h-5 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                  aria-label={t("trayRemove")}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageTray;
@@ -0,0 +1,156 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileDown, FileUp, Pencil, Plus, X } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { cellRect, LAYOUT_TEMPLATES, type Layout, type UserTemplate } from '@/lib/layouts';
+
+interface LayoutPickerProps {
+  value: Layout;
+  onChange: (layout: Layout) => void;
+  userTemplates: UserTemplate[];
+  onCreate: () => void;
+  onEdit: (template: UserTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const THUMBNAIL_HEIGHT = 36;
+const THUMBNAIL_GAP = 2;
+
+const LayoutThumbnail: React.FC<{ layout: Layout }> = ({ layout }) => {
+  const width = THUMBNAIL_HEIGHT * layout.aspect;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${THUMBNAIL_HEIGHT}`}
+      height={THUMBNAIL_HEIGHT}
+      width={width}
+      className="max-w-[6rem]"
+      aria-hidden
+    >
+      {layout.cells.map((cell, index) => {
+        const rect = cellRect(cell, width, THUMBNAIL_HEIGHT, THUMBNAIL_GAP);
+        return <rect key={index} {...rect} rx={2} className="fill-current" />;
+      })}
+    </svg>
+  );
+};
+
+const thumbnailButtonClass = (active: boolean) =>
+  `rounded-lg border p-1.5 transition-colors ${
+    active ? 'border-primary text-primary bg-primary/10' : 'border-primary/20 text-muted-foreground/60 hover:text-primary/70'
+  }`;
+
+const LayoutPicker: React.FC<LayoutPickerProps> = ({
+  value,
+  onChange,
+  userTemplates,
+  onCreate,
+  onEdit,
+  onDelete,
+  onImport,
+  onExport,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex flex-col items-center gap-3 mb-6">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <span className="text-sm font-medium text-muted-foreground">{t("layoutTemplates")}</span>
+        <div className="flex flex-wrap justify-center gap-2">
+          {LAYOUT_TEMPLATES.map((template) => {
+            const active = template.id === value.id;
+            return (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => onChange(template)}
+                className={thumbnailButtonClass(active)}
+                title={t(template.nameKey)}
+                aria-label={t(template.nameKey)}
+                aria-pressed={active}
+              >
+                <LayoutThumbnail layout={template} />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <span className="text-sm font-medium text-muted-foreground">{t("myTemplates")}</span>
+        <div className="flex flex-wrap justify-center gap-2">
+          {userTemplates.map((template) => {
+            const active = template.id === value.id;
+            return (
+              <div key={template.id} className="relative group">
+                <button
+                  type="button"
+                  onClick={() => onChange(template)}
+                  className={thumbnailButtonClass(active)}
+                  title={template.name}
+                  aria-label={template.name}
+                  aria-pressed={active}
+                >
+                  <LayoutThumbnail layout={template} />
+                </button>
+                <div className="absolute -top-2 -right-2 flex gap-0.5 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    className="w-5 h-5 p-0 rounded-full"
+                    onClick={() => onEdit(template)}
+                    title={t("templateEdit")}
+                    aria-label={t("templateEdit")}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="w-5 h-5 p-0 rounded-full"
+                    onClick={() => onDelete(template.id)}
+                    title={t("templateDelete")}
+                    aria-label={t("templateDelete")}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" className="h-8" onClick={onCreate}>
+            <Plus className="w-4 h-4 mr-1" />
+            {t("templateNew")}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8" onClick={() => importInputRef.current?.click()}>
+            <FileUp className="w-4 h-4 mr-1" />
+            {t("templateImport")}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8" onClick={onExport} disabled={userTemplates.length === 0}>
+            <FileDown className="w-4 h-4 mr-1" />
+            {t("templateExport")}
+          </Button>
+        </div>
+      </div>
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default LayoutPicker;
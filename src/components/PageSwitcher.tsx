@@ -0,0 +1,70 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+
+interface PageSwitcherProps {
+  pageCount: number;
+  current: number;
+  onChange: (page: number) => void;
+  onAdd: () => void;
+  onDelete: () => void;
+}
+
+const PageSwitcher: React.FC<PageSwitcherProps> = ({ pageCount, current, onChange, onAdd, onDelete }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+      <Button
+        variant="outline"
+        size="sm"
+        className="glass border-primary/20 w-8 h-8 p-0"
+        onClick={() => onChange(current - 1)}
+        disabled={current === 0}
+        aria-label={t("pagePrevious")}
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <div className="flex flex-wrap gap-1">
+        {Array.from({ length: pageCount }, (_, page) => (
+          <Button
+            key={page}
+            variant={page === current ? 'default' : 'ghost'}
+            size="sm"
+            className={`h-8 min-w-8 px-2 ${page === current ? 'gradient-primary text-white' : ''}`}
+            onClick={() => onChange(page)}
+            aria-current={page === current ? 'page' : undefined}
+          >
+            {page + 1}
+          </Button>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="glass border-primary/20 w-8 h-8 p-0"
+        onClick={() => onChange(current + 1)}
+        disabled={current === pageCount - 1}
+        aria-label={t("pageNext")}
+      >
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+      <span className="text-sm text-muted-foreground mx-1">
+        {t("page")} {current + 1} / {pageCount}
+      </span>
+      <Button variant="ghost" size="sm" className="h-8" onClick={onAdd}>
+        <Plus className="w-4 h-4 mr-1" />
+        {t("pageAdd")}
+      </Button>
+      {pageCount > 1 && (
+        <Button variant="ghost" size="sm" className="h-8 text-destructive hover:text-destructive" onClick={onDelete}>
+          <Trash2 className="w-4 h-4 mr-1" />
+          {t("pageDelete")}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default PageSwitcher;
@@ -1,38 +1,414 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Upload, Download, RotateCcw, ImageIcon, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Upload, Download, RotateCcw, ImageIcon, FileArchive, Undo2, Redo2, Database, SlidersHorizontal, Type, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/hooks/useLanguage';
+import { useHistory } from '@/hooks/useHistory';
+import { useSavedSession, type SessionSnapshot } from '@/hooks/useSavedSession';
+import { useUserTemplates } from '@/hooks/useUserTemplates';
+import { useWatermark } from '@/hooks/useWatermark';
 import LanguageToggle from '@/components/LanguageToggle';
+import CanvasAspectSelector from '@/components/CanvasAspectSelector';
+import AdjustmentsPopover from '@/components/AdjustmentsPopover';
+import ExportDialog from '@/components/ExportDialog';
+import GridSizeSelector from '@/components/GridSizeSelector';
+import GridStylePanel from '@/components/GridStylePanel';
+import GridSlot from '@/components/GridSlot';
+import ImageTray from '@/components/ImageTray';
+import LayoutPicker from '@/components/LayoutPicker';
+import PageSwitcher from '@/components/PageSwitcher';
+import PhotoSplitter from '@/components/PhotoSplitter';
+import RestoreSessionDialog from '@/components/RestoreSessionDialog';
+import StickerOverlay from '@/components/StickerOverlay';
+import StickerPicker from '@/components/StickerPicker';
+import VideoFramePicker from '@/components/VideoFramePicker';
+import WatermarkPanel from '@/components/WatermarkPanel';
+import TemplateEditor from '@/components/TemplateEditor';
+import TextLayerPanel from '@/components/TextLayerPanel';
+import TextOverlay from '@/components/TextOverlay';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  collectPreviews,
+  createEmptySlot,
+  createGridState,
+  createSlots,
+  importImages,
+  isFilled,
+  moveSlot,
+  placeImage,
+  resizePages,
+  slotPreview,
+  SLOT_DRAG_TYPE,
+  TRAY_DRAG_TYPE,
+  type GridState,
+  type ImageSlot,
+  type LibraryImage,
+  type RearrangeMode,
+  type SlotTile
+} from '@/lib/grid';
+import { ANIMATION_FORMATS, exportAnimatedGrid, type AnimationSettings } from '@/lib/animation';
+import { droppedEntries, readDroppedFiles, sortImages, type ImportOrder } from '@/lib/folderImport';
+import { convertHeic, isHeicFile } from '@/lib/heic';
+import { readPhoto } from '@/lib/photoMetadata';
+import { isVideoFile } from '@/lib/videoFrames';
+import { exportGrid, exportSlotFiles, loadImage, type PageOverlays } from '@/lib/renderGrid';
+import { backgroundCss, cellPreviewStyle, previewLength, type GridStyle } from '@/lib/gridStyle';
+import { combineAdjustments, type SlotAdjustments } from '@/lib/adjustments';
+import { cellStyle, clampCanvasAspect, neighborCell, uniformLayout, uniformSize, withCanvasAspect, type Direction, type Layout, type UserTemplate } from '@/lib/layouts';
+import { parseTemplateFile, templatesToBlob } from '@/lib/templateStore';
+import { createTextLayer, removePageTexts, textsOnPage, type TextLayer } from '@/lib/textLayers';
+import {
+  createSticker,
+  removePageStickers,
+  reorderSticker,
+  stickersOnPage,
+  type Sticker,
+  type StickerSource
+} from '@/lib/stickers';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  extensionForBlob,
+  formatFileSize,
+  type ExportSettings
+} from '@/lib/exportSettings';
+import type { SavedSession } from '@/lib/sessionStore';
+import type { SlotCrop } from '@/lib/crop';
+import { createZip, downloadBlob, sequenceFileName, type ZipEntry } from '@/lib/download';
 
 interface PhotoGridProps {}
 
-interface ImageSlot {
-  id: number;
-  file: File | null;
-  preview: string | null;
-}
+const SLOT_EXPORT_SIZES = [1080, 1440, 2048];
+
+/** Longest edge of the preview in rem. */
+const PREVIEW_SIZE = 32;
+
+/** File names listed in the summary of an import that skipped some files. */
+const SKIPPED_NAMES_SHOWN = 3;
+
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down'
+};
 
 const PhotoGrid: React.FC<PhotoGridProps> = () => {
-  const [images, setImages] = useState<ImageSlot[]>(
-    Array.from({ length: 9 }, (_, i) => ({ id: i, file: null, preview: null }))
+  const {
+    state: grid,
+    history,
+    set: setGrid,
+    undo,
+    redo,
+    reset: resetHistory,
+    canUndo,
+    canRedo
+  } = useHistory<GridState>(() => createGridState());
+  const { layout, canvasAspect, style, pages, texts, stickers, library } = grid;
+  const canvasLayout = useMemo(() => withCanvasAspect(layout, canvasAspect), [layout, canvasAspect]);
+  const [currentPage, setCurrentPage] = useState(0);
+  const pageIndex = Math.min(currentPage, pages.length - 1);
+  const images = pages[pageIndex];
+  // The grid and page as of the last render, for work that finishes after awaiting
+  const gridRef = useRef(grid);
+  gridRef.current = grid;
+  const pageIndexRef = useRef(pageIndex);
+  pageIndexRef.current = pageIndex;
+  const pageTexts = useMemo(() => textsOnPage(texts, pageIndex), [texts, pageIndex]);
+  const pageStickers = useMemo(() => stickersOnPage(stickers, pageIndex), [stickers, pageIndex]);
+  const pageOverlays = useMemo<PageOverlays>(
+    () => ({ texts: pageTexts, stickers: pageStickers }),
+    [pageTexts, pageStickers]
   );
   const [isDragging, setIsDragging] = useState(false);
+  const [heicProgress, setHeicProgress] = useState<{ done: number; total: number } | null>(null);
+  const [importOrder, setImportOrder] = useState<ImportOrder>('name');
+  const [videoQueue, setVideoQueue] = useState<File[]>([]);
   const [dragOverSlot, setDragOverSlot] = useState<number | null>(null);
+  const [rearrangeMode, setRearrangeMode] = useState<RearrangeMode>('swap');
+  const [pickedSlot, setPickedSlot] = useState<number | null>(null);
+  const [pickedTrayImage, setPickedTrayImage] = useState<string | null>(null);
+  const [selectedText, setSelectedText] = useState<string | null>(null);
+  const [selectedSticker, setSelectedSticker] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [templateEditorOpen, setTemplateEditorOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<UserTemplate>({ id: '', name: '', aspect: 1, cells: [] });
+  const userTemplates = useUserTemplates();
+  const { watermark, setWatermark } = useWatermark();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const { t } = useLanguage();
+  const liveUrls = useRef(new Set<string>());
+
+  // Object URLs stay alive while any undo/redo entry still shows them and are revoked once it expires.
+  useEffect(() => {
+    const entries = [...history.past, history.present, ...history.future];
+    const referenced = new Set(entries.flatMap(collectPreviews));
+    liveUrls.current.forEach(url => {
+      if (!referenced.has(url)) URL.revokeObjectURL(url);
+    });
+    liveUrls.current = referenced;
+  }, [history]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (e.key === 'Escape') {
+        setPickedSlot(null);
+        setPickedTrayImage(null);
+        setSelectedText(null);
+        setSelectedSticker(null);
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // A selected sticker keeps its handles until the user presses anywhere else
+  useEffect(() => {
+    if (selectedSticker === null) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!(e.target as HTMLElement).closest('[data-sticker]')) setSelectedSticker(null);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [selectedSticker]);
+
+  // Updates the slots of the page that is currently shown
+  const setImages = useCallback((updater: (images: ImageSlot[]) => ImageSlot[], coalesceKey?: string) => {
+    setGrid(state => ({
+      ...state,
+      pages: state.pages.map((page, i) => (i === pageIndex ? updater(page) : page))
+    }), coalesceKey);
+  }, [setGrid, pageIndex]);
+
+  const sessionSnapshot = useMemo<SessionSnapshot>(() => ({
+    layout,
+    canvasAspect,
+    exportSettings,
+    pages: pages.map(page => page.map(({ content, crop, adjustments }) => ({
+      content: content.type === 'image' ? { type: 'image', file: content.file } : content,
+      crop,
+      adjustments
+    }))),
+    texts,
+    stickers: stickers.map(sticker => (sticker.source.type === 'image'
+      ? { ...sticker, source: { type: 'image', file: sticker.source.file } }
+      : { ...sticker, source: sticker.source })),
+    library: library.map(({ file, metadata }) => ({ file, metadata })),
+    style: style.background.type === 'image'
+      ? { ...style, background: { type: 'image', file: style.background.file } }
+      : { ...style, background: style.background }
+  }), [layout, canvasAspect, style, exportSettings, pages, texts, stickers, library]);
+
+  const restoreSession = useCallback((session: SavedSession) => {
+    // IndexedDB keeps object identity within a record, so slot files match their library entries
+    const restoredLibrary = session.library.map(({ file, metadata }) => ({
+      file,
+      preview: URL.createObjectURL(file),
+      metadata
+    }));
+    const libraryImageFor = (file: File) =>
+      restoredLibrary.find(image => image.file === file) ?? { preview: URL.createObjectURL(file), metadata: null };
+
+    resetHistory({
+      layout: session.layout,
+      canvasAspect: session.canvasAspect,
+      pages: session.pages.map(page => page.map((slot, id) => ({
+        id,
+        content: slot.content.type === 'image'
+          ? { ...slot.content, ...libraryImageFor(slot.content.file) }
+          : slot.content,
+        crop: slot.crop,
+        adjustments: slot.adjustments
+      }))),
+      texts: session.texts,
+      stickers: session.stickers.map(sticker => (sticker.source.type === 'image'
+        ? { ...sticker, source: { ...sticker.source, preview: URL.createObjectURL(sticker.source.file) } }
+        : { ...sticker, source: sticker.source })),
+      library: restoredLibrary,
+      style: session.style.background.type === 'image'
+        ? {
+          ...session.style,
+          background: { ...session.style.background, preview: URL.createObjectURL(session.style.background.file) }
+        }
+        : { ...session.style, background: session.style.background }
+    });
+    setExportSettings(session.exportSettings);
+  }, [resetHistory]);
+
+  const savedSession = useSavedSession(sessionSnapshot, restoreSession);
+
+  const clearSavedSession = useCallback(async () => {
+    await savedSession.clear();
+    toast({
+      title: t("storageCleared"),
+      description: t("storageClearedDesc")
+    });
+  }, [savedSession, toast, t]);
+
+  const slotCount = layout.cells.length;
+  const placedPreviews = useMemo(() => new Set(collectPreviews({ ...grid, library: [] })), [grid]);
+
+  const handleLayoutChange = useCallback((next: Layout) => {
+    setGrid(state => ({
+      ...state,
+      layout: next,
+      pages: resizePages(state.pages, next.cells.length),
+      // Captions of cells the new layout no longer has stay visible across the canvas
+      texts: state.texts.map(layer =>
+        layer.cell !== null && layer.cell >= next.cells.length ? { ...layer, cell: null } : layer
+      )
+    }));
+  }, [setGrid]);
+
+  const handleCanvasAspectChange = useCallback((aspect: number | null) => {
+    setGrid(state => ({ ...state, canvasAspect: aspect }));
+  }, [setGrid]);
+
+  const handleStyleChange = useCallback((patch: Partial<GridStyle>, key: string) => {
+    setGrid(state => ({ ...state, style: { ...state.style, ...patch } }), `style-${key}`);
+  }, [setGrid]);
+
+  const setBackgroundImage = useCallback((file: File) => {
+    const background = { type: 'image' as const, file, preview: URL.createObjectURL(file) };
+    setGrid(state => ({ ...state, style: { ...state.style, background } }));
+  }, [setGrid]);
+
+  const addText = useCallback((cell: number | null) => {
+    const layer = createTextLayer(pageIndex, cell);
+    setGrid(state => ({ ...state, texts: [...state.texts, layer] }));
+    setSelectedText(layer.id);
+  }, [setGrid, pageIndex]);
+
+  const updateText = useCallback((id: string, patch: Partial<TextLayer>, key: string) => {
+    setGrid(state => ({
+      ...state,
+      texts: state.texts.map(layer => (layer.id === id ? { ...layer, ...patch } : layer))
+    }), `text-${key}-${id}`);
+  }, [setGrid]);
+
+  const removeText = useCallback((id: string) => {
+    setGrid(state => ({ ...state, texts: state.texts.filter(layer => layer.id !== id) }));
+    setSelectedText(null);
+  }, [setGrid]);
+
+  const addSticker = useCallback((source: StickerSource, aspect: number) => {
+    const sticker = createSticker(pageIndex, source, aspect);
+    setGrid(state => ({ ...state, stickers: [...state.stickers, sticker] }));
+    setSelectedSticker(sticker.id);
+  }, [setGrid, pageIndex]);
+
+  const addStickerImage = useCallback(async (file: File) => {
+    const preview = URL.createObjectURL(file);
+    try {
+      const image = await loadImage(preview);
+      addSticker({ type: 'image', file, preview }, image.width / image.height);
+    } catch {
+      URL.revokeObjectURL(preview);
+      toast({
+        title: t("fileFormatError"),
+        description: t("fileFormatErrorDesc"),
+        variant: "destructive"
+      });
+    }
+  }, [addSticker, toast, t]);
+
+  const updateSticker = useCallback((id: string, patch: Partial<Sticker>, key: string) => {
+    setGrid(state => ({
+      ...state,
+      stickers: state.stickers.map(sticker => (sticker.id === id ? { ...sticker, ...patch } : sticker))
+    }), `sticker-${key}-${id}`);
+  }, [setGrid]);
+
+  const moveStickerLayer = useCallback((id: string, direction: 1 | -1) => {
+    setGrid(state => ({ ...state, stickers: reorderSticker(state.stickers, id, direction) }));
+  }, [setGrid]);
+
+  const removeSticker = useCallback((id: string) => {
+    setGrid(state => ({ ...state, stickers: state.stickers.filter(sticker => sticker.id !== id) }));
+    setSelectedSticker(null);
+  }, [setGrid]);
+
+  const createTemplate = useCallback(() => {
+    // New templates start from the layout in use, so tweaking a built-in one is a few clicks.
+    // Wide uniform grids such as 1×6 go beyond the canvas range templates are held to
+    setEditingTemplate({ id: '', name: '', aspect: clampCanvasAspect(canvasLayout.aspect), cells: layout.cells });
+    setTemplateEditorOpen(true);
+  }, [canvasLayout, layout.cells]);
+
+  const editTemplate = useCallback((template: UserTemplate) => {
+    setEditingTemplate(template);
+    setTemplateEditorOpen(true);
+  }, []);
+
+  const saveTemplate = useCallback((template: UserTemplate) => {
+    userTemplates.saveTemplates([template]);
+    handleLayoutChange(template);
+  }, [userTemplates, handleLayoutChange]);
+
+  const importTemplates = useCallback(async (file: File) => {
+    try {
+      const templates = await parseTemplateFile(file);
+      userTemplates.saveTemplates(templates);
+      toast({
+        title: t("templateImportSuccess"),
+        description: `${templates.length} ${t("templateImportSuccessDesc")}`
+      });
+    } catch {
+      toast({
+        title: t("templateImportError"),
+        description: t("templateImportErrorDesc"),
+        variant: "destructive"
+      });
+    }
+  }, [userTemplates, toast, t]);
 
-  const handleFileSelect = useCallback((files: FileList, slotId?: number) => {
+  const exportTemplates = useCallback(() => {
+    downloadBlob(templatesToBlob(userTemplates.templates), `拼图模板-${new Date().getTime()}.json`);
+  }, [userTemplates.templates]);
+
+  const handleFileSelect = useCallback(async (files: FileList | File[], slotId?: number, order?: ImportOrder) => {
     const fileArray = Array.from(files);
     
     if (fileArray.length === 0) return;
 
-    // Filter for image files
-    const imageFiles = fileArray.filter(file => file.type.startsWith('image/'));
+    // Filter for image files; HEIC often arrives without a MIME type, so it is recognized by its bytes
+    const heicFlags = await Promise.all(fileArray.map(isHeicFile));
+    const imageFiles = fileArray.filter((file, index) => heicFlags[index] || file.type.startsWith('image/'));
+    const heicFiles = new Set(fileArray.filter((_, index) => heicFlags[index]));
+    // Videos open the frame picker one after another instead of being imported
+    const videoFiles = fileArray.filter(isVideoFile);
+    const skippedFiles = fileArray.filter(file => !imageFiles.includes(file) && !videoFiles.includes(file));
+    if (videoFiles.length > 0) setVideoQueue(queue => [...queue, ...videoFiles]);
     
     if (imageFiles.length === 0) {
+      if (videoFiles.length > 0) return;
       toast({
         title: t("fileFormatError"),
         description: t("fileFormatErrorDesc"),
@@ -41,49 +417,131 @@ const PhotoGrid: React.FC<PhotoGridProps> = () => {
       return;
     }
 
-    // If specific slot is provided, use it; otherwise find first empty slot
-    let startIndex = slotId !== undefined ? slotId : images.findIndex(img => img.file === null);
-    
-    if (startIndex === -1) {
+    // Every import goes to the tray. As many as fit are placed starting at the given slot,
+    // or into the empty slots in order; the rest are laid out on new pages.
+    const loadedImages: LibraryImage[] = [];
+    let heicFailed = 0;
+    if (heicFiles.size > 0) setHeicProgress({ done: 0, total: heicFiles.size });
+    // One at a time, since each photo is decoded in full to read its size and orientation
+    for (const file of imageFiles) {
+      let source = file;
+      if (heicFiles.has(file)) {
+        try {
+          source = await convertHeic(file);
+        } catch {
+          heicFailed++;
+          continue;
+        } finally {
+          setHeicProgress(progress => progress && { ...progress, done: progress.done + 1 });
+        }
+      }
+      const photo = await readPhoto(source).catch(() => ({ file: source, metadata: null }));
+      loadedImages.push({ ...photo, preview: URL.createObjectURL(photo.file) });
+    }
+    setHeicProgress(null);
+    const newImages = order ? sortImages(loadedImages, order) : loadedImages;
+
+    if (heicFailed > 0) {
       toast({
-        title: t("gridFull"),
-        description: t("gridFullDesc"),
+        title: t("heicFailed"),
+        description: `${heicFailed} ${t("heicFailedDesc")}`,
         variant: "destructive"
       });
-      return;
     }
+    if (newImages.length === 0) return;
 
-    const newImages = [...images];
-    
-    imageFiles.forEach((file, index) => {
-      const targetIndex = startIndex + index;
-      if (targetIndex < 9) {
-        const preview = URL.createObjectURL(file);
-        newImages[targetIndex] = { id: targetIndex, file, preview };
-      }
-    });
-
-    setImages(newImages);
+    // Reading the photos, and above all decoding HEIC, takes a while, during which the layout, the pages
+    // or the page shown may change, so they are placed where the user is now rather than where they started
+    const placeImages = (state: GridState) =>
+      importImages(state, Math.min(pageIndexRef.current, state.pages.length - 1), newImages, slotId);
+    const newPageCount = placeImages(gridRef.current).pages.length - gridRef.current.pages.length;
+    setGrid(placeImages);
     
     toast({
       title: t("uploadSuccess"),
-      description: `${t("uploadSuccessDesc")} ${Math.min(imageFiles.length, 9 - startIndex)} ${t("uploadSuccessDesc2")}`
+      description: `${t("uploadSuccessDesc")} ${newImages.length} ${t("uploadSuccessDesc2")}${
+        newPageCount > 0 ? ` · ${newPageCount} ${t("uploadNewPagesDesc")}` : ''
+      }${
+        skippedFiles.length > 0
+          ? ` · ${t("importSkipped")} ${skippedFiles.length}: ${skippedFiles.slice(0, SKIPPED_NAMES_SHOWN).map(file => file.name).join(', ')}${
+            skippedFiles.length > SKIPPED_NAMES_SHOWN ? '…' : ''
+          }`
+          : ''
+      }`
     });
-  }, [images, toast]);
+  }, [setGrid, toast, t]);
+
+  // Pasted images go to the focused or hovered slot onwards, or into the empty slots
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const files = Array.from(e.clipboardData?.items ?? [])
+        .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+        .map(item => item.getAsFile())
+        .filter((file): file is File => file !== null);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      const slot = document.activeElement?.closest('[data-slot]') ?? document.querySelector('[data-slot]:hover');
+      handleFileSelect(files, slot ? Number(slot.getAttribute('data-slot')) : undefined);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [handleFileSelect]);
+
+  const moveImage = useCallback((from: number, to: number) => {
+    setImages(prev => moveSlot(prev, from, to, rearrangeMode));
+  }, [rearrangeMode, setImages]);
+
+  const placeFromTray = useCallback((preview: string, slotId: number) => {
+    setGrid(state => {
+      const image = state.library.find(item => item.preview === preview);
+      return image ? { ...state, pages: placeImage(state.pages, pageIndex, slotId, image) } : state;
+    });
+  }, [setGrid, pageIndex]);
 
   const handleDrop = useCallback((e: React.DragEvent, slotId?: number) => {
     e.preventDefault();
     setIsDragging(false);
     setDragOverSlot(null);
+
+    // Images dragged from another slot or from the tray are moved instead of imported
+    if (e.dataTransfer.types.includes(SLOT_DRAG_TYPE)) {
+      const from = Number(e.dataTransfer.getData(SLOT_DRAG_TYPE));
+      if (slotId !== undefined) moveImage(from, slotId);
+      return;
+    }
+    if (e.dataTransfer.types.includes(TRAY_DRAG_TYPE)) {
+      if (slotId !== undefined) placeFromTray(e.dataTransfer.getData(TRAY_DRAG_TYPE), slotId);
+      return;
+    }
     
+    // Folders are walked for their files, which the data transfer's file list leaves out
+    const entries = droppedEntries(e.dataTransfer);
+    if (entries.some(entry => entry.isDirectory)) {
+      readDroppedFiles(entries)
+        .then(files => handleFileSelect(files, slotId, importOrder))
+        .catch(() => toast({
+          title: t("folderReadError"),
+          description: t("folderReadErrorDesc"),
+          variant: "destructive"
+        }));
+      return;
+    }
+
     const files = e.dataTransfer.files;
     handleFileSelect(files, slotId);
-  }, [handleFileSelect]);
+  }, [handleFileSelect, moveImage, placeFromTray, importOrder, toast, t]);
 
   const handleDragOver = useCallback((e: React.DragEvent, slotId?: number) => {
     e.preventDefault();
+    const isInternal = e.dataTransfer.types.includes(SLOT_DRAG_TYPE) || e.dataTransfer.types.includes(TRAY_DRAG_TYPE);
+    if (slotId === undefined && isInternal) return;
     setIsDragging(true);
-    setDragOverSlot(slotId || null);
+    setDragOverSlot(slotId ?? null);
   }, []);
 
   const handleDragLeave = useCallback((e: React.DragEvent) => {
@@ -94,30 +552,104 @@ const PhotoGrid: React.FC<PhotoGridProps> = () => {
     }
   }, []);
 
-  const removeImage = useCallback((slotId: number) => {
-    const newImages = [...images];
-    if (newImages[slotId].preview) {
-      URL.revokeObjectURL(newImages[slotId].preview!);
+  const pickSlot = useCallback((slotId: number) => {
+    setPickedTrayImage(null);
+    setPickedSlot(prev => (prev === slotId ? null : slotId));
+  }, []);
+
+  const pickTrayImage = useCallback((preview: string) => {
+    setPickedSlot(null);
+    setPickedTrayImage(prev => (prev === preview ? null : preview));
+  }, []);
+
+  const moveHere = useCallback((slotId: number) => {
+    if (pickedSlot !== null) moveImage(pickedSlot, slotId);
+    if (pickedTrayImage !== null) placeFromTray(pickedTrayImage, slotId);
+    setPickedSlot(null);
+    setPickedTrayImage(null);
+  }, [pickedSlot, pickedTrayImage, moveImage, placeFromTray]);
+
+  // While an image is picked up, arrow keys move it to the neighbouring cell
+  const handleSlotKeyDown = useCallback((e: React.KeyboardEvent, slotId: number) => {
+    if (pickedSlot !== slotId) return;
+
+    if (e.key === 'Escape') {
+      setPickedSlot(null);
+      return;
     }
-    newImages[slotId] = { id: slotId, file: null, preview: null };
-    setImages(newImages);
-  }, [images]);
+    if (!(e.key in ARROW_DIRECTIONS)) return;
+
+    e.preventDefault();
+    const target = neighborCell(canvasLayout, slotId, ARROW_DIRECTIONS[e.key]);
+    if (target < 0) return;
+    moveImage(slotId, target);
+    setPickedSlot(target);
+  }, [pickedSlot, canvasLayout, moveImage]);
+
+  useEffect(() => {
+    if (pickedSlot === null) return;
+    document.querySelector<HTMLElement>(`[data-slot-handle="${pickedSlot}"]`)?.focus();
+  }, [pickedSlot, images]);
+
+  const removeImage = useCallback((slotId: number) => {
+    setImages(prev => prev.map(img => (img.id === slotId ? createEmptySlot(slotId) : img)));
+  }, [setImages]);
+
+  const deleteFromLibrary = useCallback((preview: string) => {
+    setGrid(state => ({
+      ...state,
+      pages: state.pages.map(page => page.map(img => (slotPreview(img) === preview ? createEmptySlot(img.id) : img))),
+      library: state.library.filter(image => image.preview !== preview)
+    }));
+  }, [setGrid]);
+
+  const updateAdjustments = useCallback((slotId: number, adjustments: SlotAdjustments) => {
+    setImages(prev => prev.map(img => (img.id === slotId ? { ...img, adjustments } : img)), `adjust-${slotId}`);
+  }, [setImages]);
+
+  const updateTile = useCallback((slotId: number, tile: SlotTile, key: string) => {
+    setImages(prev => prev.map(img => (img.id === slotId ? { ...img, content: tile } : img)), `tile-${key}-${slotId}`);
+  }, [setImages]);
+
+  const updateCrop = useCallback((slotId: number, crop: SlotCrop) => {
+    setImages(prev => prev.map(img => (img.id === slotId ? { ...img, crop } : img)), `crop-${slotId}`);
+  }, [setImages]);
 
   const resetGrid = useCallback(() => {
-    images.forEach(img => {
-      if (img.preview) {
-        URL.revokeObjectURL(img.preview);
-      }
-    });
-    setImages(Array.from({ length: 9 }, (_, i) => ({ id: i, file: null, preview: null })));
+    setGrid(state => ({ ...state, pages: [createSlots(slotCount)], texts: [], stickers: [], library: [] }));
+    setCurrentPage(0);
     toast({
       title: t("gridReset"),
       description: t("gridResetDesc")
     });
-  }, [images, toast]);
+  }, [slotCount, setGrid, toast, t]);
 
-  const downloadGrid = useCallback(async () => {
-    const filledImages = images.filter(img => img.preview);
+  const changePage = useCallback((page: number) => {
+    setCurrentPage(page);
+    setPickedSlot(null);
+    setSelectedText(null);
+    setSelectedSticker(null);
+  }, []);
+
+  const addPage = useCallback(() => {
+    setGrid(state => ({ ...state, pages: [...state.pages, createSlots(slotCount)] }));
+    changePage(pages.length);
+  }, [setGrid, slotCount, pages.length, changePage]);
+
+  const deletePage = useCallback(() => {
+    if (pages.length <= 1) return;
+    // The page's images stay in the tray, so deleting a page is safe to undo
+    setGrid(state => ({
+      ...state,
+      pages: state.pages.filter((_, i) => i !== pageIndex),
+      texts: removePageTexts(state.texts, pageIndex),
+      stickers: removePageStickers(state.stickers, pageIndex)
+    }));
+    changePage(Math.max(0, pageIndex - 1));
+  }, [setGrid, pages.length, pageIndex, changePage]);
+
+  const downloadGrid = useCallback(() => {
+    const filledImages = images.filter(isFilled);
     
     if (filledImages.length === 0) {
       toast({
@@ -128,83 +660,143 @@ const PhotoGrid: React.FC<PhotoGridProps> = () => {
       return;
     }
 
-    // Create canvas for combining images
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const gridSize = 3;
-    const cellSize = 300;
-    const gap = 10;
-    canvas.width = gridSize * cellSize + (gridSize - 1) * gap;
-    canvas.height = gridSize * cellSize + (gridSize - 1) * gap;
-
-    // Fill background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw images
-    const imagePromises = images.map((img, index) => {
-      return new Promise<void>((resolve) => {
-        if (!img.preview) {
-          resolve();
-          return;
-        }
+    setExportOpen(true);
+  }, [images, toast, t]);
+
+  const exportComposite = useCallback(async () => {
+    const blob = await exportGrid(images, canvasLayout, style, pageOverlays, exportSettings, watermark);
+    downloadBlob(blob, `九宫格-${new Date().getTime()}.${extensionForBlob(blob)}`);
 
-        const image = new Image();
-        image.onload = () => {
-          const row = Math.floor(index / gridSize);
-          const col = index % gridSize;
-          const x = col * (cellSize + gap);
-          const y = row * (cellSize + gap);
-
-          // Draw image with object-fit: cover behavior
-          const aspectRatio = image.width / image.height;
-          let drawWidth, drawHeight, offsetX = 0, offsetY = 0;
-
-          if (aspectRatio > 1) {
-            drawHeight = cellSize;
-            drawWidth = cellSize * aspectRatio;
-            offsetX = -(drawWidth - cellSize) / 2;
-          } else {
-            drawWidth = cellSize;
-            drawHeight = cellSize / aspectRatio;
-            offsetY = -(drawHeight - cellSize) / 2;
-          }
-
-          ctx.save();
-          ctx.beginPath();
-          ctx.rect(x, y, cellSize, cellSize);
-          ctx.clip();
-          ctx.drawImage(image, x + offsetX, y + offsetY, drawWidth, drawHeight);
-          ctx.restore();
-          resolve();
-        };
-        image.src = img.preview;
+    toast({
+      title: t("downloadSuccess"),
+      description: t("downloadSuccessDesc")
+    });
+  }, [images, canvasLayout, style, pageOverlays, exportSettings, watermark, toast, t]);
+
+  const exportAnimation = useCallback(async (animation: AnimationSettings, onProgress: (progress: number) => void) => {
+    try {
+      const blob = await exportAnimatedGrid(
+        images,
+        canvasLayout,
+        style,
+        pageOverlays,
+        exportSettings.size,
+        exportSettings.quality,
+        animation,
+        watermark,
+        onProgress
+      );
+      downloadBlob(blob, `九宫格-${new Date().getTime()}.${ANIMATION_FORMATS[animation.format].extension}`);
+    } catch {
+      toast({
+        title: t("exportAnimatedError"),
+        description: t("exportAnimatedErrorDesc"),
+        variant: "destructive"
       });
+      return;
+    }
+
+    toast({
+      title: t("downloadSuccess"),
+      description: t("downloadSuccessDesc")
     });
+  }, [images, canvasLayout, style, pageOverlays, exportSettings, watermark, toast, t]);
+
+  const exportSlots = useCallback(async (size: number) => {
+    const filledSlots = images.filter(isFilled);
+
+    if (filledSlots.length === 0) {
+      toast({
+        title: t("noImages"),
+        description: t("noImagesDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const entries = await exportSlotFiles(images, canvasLayout, style.adjustments, size, exportSettings, watermark);
+      downloadBlob(await createZip(entries), `九宫格-${new Date().getTime()}.zip`);
+    } catch {
+      toast({
+        title: t("downloadError"),
+        description: t("downloadErrorDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: t("downloadSuccess"),
+      description: `${filledSlots.length} ${t("exportSlotsSuccessDesc")}`
+    });
+  }, [images, canvasLayout, style.adjustments, exportSettings, watermark, toast, t]);
+
+  // Batch export: one composite per page, or one folder of photos per page at `slotSize`
+  const exportAllPages = useCallback(async (mode: 'composites' | 'slots', slotSize = SLOT_EXPORT_SIZES[0]) => {
+    const filledPages = pages.filter(page => page.some(isFilled));
+
+    if (filledPages.length === 0) {
+      toast({
+        title: t("noImages"),
+        description: t("noImagesDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
 
-    await Promise.all(imagePromises);
-
-    // Download the image
-    canvas.toBlob((blob) => {
-      if (blob) {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `九宫格-${new Date().getTime()}.png`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        toast({
-          title: t("downloadSuccess"),
-          description: t("downloadSuccessDesc")
-        });
+    try {
+      // Pages are rendered one after another so only one full-size canvas is alive at a time
+      const entries: ZipEntry[] = [];
+      for (const [index, page] of filledPages.entries()) {
+        if (mode === 'composites') {
+          const pageAt = pages.indexOf(page);
+          const overlays = { texts: textsOnPage(texts, pageAt), stickers: stickersOnPage(stickers, pageAt) };
+          const blob = await exportGrid(page, canvasLayout, style, overlays, exportSettings, watermark);
+          entries.push({ name: sequenceFileName(index + 1, extensionForBlob(blob)), blob });
+        } else {
+          const folder = `page-${String(index + 1).padStart(2, '0')}/`;
+          entries.push(...await exportSlotFiles(page, canvasLayout, style.adjustments, slotSize, exportSettings, watermark, folder));
+        }
       }
-    }, 'image/png');
-  }, [images, toast]);
+
+      downloadBlob(await createZip(entries), `九宫格-${new Date().getTime()}.zip`);
+    } catch {
+      toast({
+        title: t("downloadError"),
+        description: t("downloadErrorDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: t("downloadSuccess"),
+      description: `${filledPages.length} ${t("exportPagesSuccessDesc")}`
+    });
+  }, [pages, texts, stickers, canvasLayout, style, exportSettings, watermark, toast, t]);
+
+  // The image element is scaled by the crop, so its blur is shrunk to match the canvas
+  const previewAdjustments = (slot: ImageSlot) => {
+    const { filter, tints } = combineAdjustments(
+      [style.adjustments, slot.adjustments],
+      blur => `calc(${previewLength(blur, canvasLayout.aspect)} / ${slot.crop.scale})`
+    );
+    return { imageFilter: filter, tints };
+  };
+
+  const selectedLayer = pageTexts.find(layer => layer.id === selectedText);
+
+  const renderText = (layer: TextLayer) => (
+    <TextOverlay
+      key={layer.id}
+      layer={layer}
+      aspect={canvasLayout.aspect}
+      isSelected={layer.id === selectedText}
+      onSelect={() => setSelectedText(layer.id)}
+      onChange={(patch, key) => updateText(layer.id, patch, key)}
+    />
+  );
 
   return (
     <main className="min-h-screen p-4 md:p-6 lg:p-8">
@@ -218,116 +810,370 @@ const PhotoGrid: React.FC<PhotoGridProps> = () => {
           <p className="text-lg md:text-xl text-muted-foreground mb-6">
             {t("subtitle")}
           </p>
-          
-          {/* Action Buttons */}
-          <div className="flex flex-wrap gap-4 justify-center mb-8">
-            <Button
-              onClick={() => fileInputRef.current?.click()}
-              size="lg"
-              className="gradient-primary text-white shadow-glow hover:shadow-strong transition-all duration-300"
-            >
-              <Upload className="w-5 h-5 mr-2" />
-              {t("uploadImages")}
-            </Button>
+        </header>
+
+        {/* Mode Switch */}
+        <Tabs defaultValue="combine">
+          <div className="flex justify-center mb-8">
+            <TabsList className="glass">
+              <TabsTrigger value="combine">{t("modeCombine")}</TabsTrigger>
+              <TabsTrigger value="split">{t("modeSplit")}</TabsTrigger>
+            </TabsList>
+          </div>
+
+          <TabsContent value="combine" className="mt-0">
+            {/* Action Buttons */}
+            <div className="flex flex-wrap gap-4 justify-center mb-8">
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                size="lg"
+                className="gradient-primary text-white shadow-glow hover:shadow-strong transition-all duration-300"
+              >
+                <Upload className="w-5 h-5 mr-2" />
+                {t("uploadImages")}
+              </Button>
             
-            <Button
-              onClick={downloadGrid}
-              variant="outline"
-              size="lg"
-              className="glass border-primary/20 hover:border-primary/40"
-            >
-              <Download className="w-5 h-5 mr-2" />
-              {t("downloadGrid")}
-            </Button>
+              <Button
+                onClick={downloadGrid}
+                variant="outline"
+                size="lg"
+                className="glass border-primary/20 hover:border-primary/40"
+              >
+                <Download className="w-5 h-5 mr-2" />
+                {t("downloadGrid")}
+              </Button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    className="glass border-primary/20 hover:border-primary/40"
+                  >
+                    <FileArchive className="w-5 h-5 mr-2" />
+                    {t("exportSlots")}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuLabel>{t("exportSlotsSize")}</DropdownMenuLabel>
+                  {SLOT_EXPORT_SIZES.map((size) => (
+                    <DropdownMenuItem key={size} onClick={() => exportSlots(size)}>
+                      {size} px
+                    </DropdownMenuItem>
+                  ))}
+                  {pages.length > 1 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>{t("exportAllPages")} ({pages.length})</DropdownMenuLabel>
+                      <DropdownMenuItem onClick={() => exportAllPages('composites')}>
+                        {t("exportAllComposites")}
+                      </DropdownMenuItem>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>{t("exportAllSlots")}</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {SLOT_EXPORT_SIZES.map((size) => (
+                            <DropdownMenuItem key={size} onClick={() => exportAllPages('slots', size)}>
+                              {size} px
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
             
-            <Button
-              onClick={resetGrid}
-              variant="outline"
-              size="lg"
-              className="glass border-destructive/20 hover:border-destructive/40"
-            >
-              <RotateCcw className="w-5 h-5 mr-2" />
-              {t("resetGrid")}
-            </Button>
-          </div>
-        </header>
+              <Button
+                onClick={resetGrid}
+                variant="outline"
+                size="lg"
+                className="glass border-destructive/20 hover:border-destructive/40"
+              >
+                <RotateCcw className="w-5 h-5 mr-2" />
+                {t("resetGrid")}
+              </Button>
 
-        {/* Main Upload Zone */}
-        <div
-          className={`glass-card rounded-2xl p-8 mb-8 upload-zone ${
-            isDragging && dragOverSlot === null ? 'drag-over' : ''
-          }`}
-          onDrop={(e) => handleDrop(e)}
-          onDragOver={(e) => handleDragOver(e)}
-          onDragLeave={handleDragLeave}
-        >
-          <div className="text-center">
-            <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-primary/10 flex items-center justify-center animate-float">
-              <ImageIcon className="w-8 h-8 text-primary" />
+              <div className="flex gap-2">
+                <Button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  variant="outline"
+                  size="lg"
+                  className="glass border-primary/20 hover:border-primary/40 px-4"
+                  title={`${t("undo")} (Ctrl/⌘+Z)`}
+                  aria-label={t("undo")}
+                >
+                  <Undo2 className="w-5 h-5" />
+                </Button>
+                <Button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  variant="outline"
+                  size="lg"
+                  className="glass border-primary/20 hover:border-primary/40 px-4"
+                  title={`${t("redo")} (Ctrl/⌘+Shift+Z)`}
+                  aria-label={t("redo")}
+                >
+                  <Redo2 className="w-5 h-5" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Main Upload Zone */}
+            <div
+              className={`glass-card rounded-2xl p-8 mb-8 upload-zone ${
+                isDragging && dragOverSlot === null ? 'drag-over' : ''
+              }`}
+              onDrop={(e) => handleDrop(e)}
+              onDragOver={(e) => handleDragOver(e)}
+              onDragLeave={handleDragLeave}
+            >
+              <div className="text-center">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-primary/10 flex items-center justify-center animate-float">
+                  <ImageIcon className="w-8 h-8 text-primary" />
+                </div>
+                <h3 className="text-xl font-semibold mb-2">{t("dragHere")}</h3>
+                <p className="text-muted-foreground mb-4">
+                  {t("orClick")}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {t("supportedFormats")}
+                </p>
+                <div className="flex items-center justify-center gap-2 mt-3">
+                  <span className="text-sm text-muted-foreground">{t("folderOrder")}</span>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={importOrder}
+                    onValueChange={(value) => value && setImportOrder(value as ImportOrder)}
+                  >
+                    <ToggleGroupItem value="name">{t("folderOrderName")}</ToggleGroupItem>
+                    <ToggleGroupItem value="date">{t("folderOrderDate")}</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                {heicProgress && (
+                  <div className="max-w-xs mx-auto mt-4 space-y-2" role="status">
+                    <p className="flex items-center justify-center gap-2 text-sm font-medium">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {t("heicConverting")} {heicProgress.done}/{heicProgress.total}
+                    </p>
+                    <Progress value={(heicProgress.done / heicProgress.total) * 100} />
+                  </div>
+                )}
+              </div>
             </div>
-            <h3 className="text-xl font-semibold mb-2">{t("dragHere")}</h3>
-            <p className="text-muted-foreground mb-4">
-              {t("orClick")}
-            </p>
-            <p className="text-sm text-muted-foreground">
-              {t("supportedFormats")}
-            </p>
-          </div>
-        </div>
 
-        {/* Photo Grid */}
-        <section className="glass-card rounded-2xl p-6 animate-slide-up">
-          <div className="grid grid-cols-3 gap-4 max-w-lg mx-auto">
-            {images.map((slot) => (
+            {/* Photo Grid */}
+            <section className="glass-card rounded-2xl p-6 animate-slide-up">
+              <GridSizeSelector value={uniformSize(layout)} onChange={(size) => handleLayoutChange(uniformLayout(size))} />
+              <CanvasAspectSelector value={canvasAspect} onChange={handleCanvasAspectChange} />
+              <LayoutPicker
+                value={layout}
+                onChange={handleLayoutChange}
+                userTemplates={userTemplates.templates}
+                onCreate={createTemplate}
+                onEdit={editTemplate}
+                onDelete={userTemplates.removeTemplate}
+                onImport={importTemplates}
+                onExport={exportTemplates}
+              />
+              <PageSwitcher
+                pageCount={pages.length}
+                current={pageIndex}
+                onChange={changePage}
+                onAdd={addPage}
+                onDelete={deletePage}
+              />
+              <div className="flex flex-wrap items-center justify-center gap-3 mb-6">
+                <span className="text-sm font-medium text-muted-foreground">{t("rearrangeMode")}</span>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={rearrangeMode}
+                  onValueChange={(value) => value && setRearrangeMode(value as RearrangeMode)}
+                >
+                  <ToggleGroupItem value="swap">{t("rearrangeSwap")}</ToggleGroupItem>
+                  <ToggleGroupItem value="insert">{t("rearrangeInsert")}</ToggleGroupItem>
+                </ToggleGroup>
+                <GridStylePanel
+                  value={style}
+                  exportSize={exportSettings.size}
+                  onChange={handleStyleChange}
+                  onBackgroundImage={setBackgroundImage}
+                />
+                <AdjustmentsPopover
+                  title={t("adjustAll")}
+                  value={style.adjustments}
+                  onChange={(adjustments) => handleStyleChange({ adjustments }, 'adjustments')}
+                >
+                  <Button variant="outline" size="sm" className="glass border-primary/20">
+                    <SlidersHorizontal className="w-4 h-4 mr-1" />
+                    {t("adjustAll")}
+                  </Button>
+                </AdjustmentsPopover>
+                <Button variant="outline" size="sm" className="glass border-primary/20" onClick={() => addText(null)}>
+                  <Type className="w-4 h-4 mr-1" />
+                  {t("textAdd")}
+                </Button>
+                <StickerPicker onAdd={addSticker} onAddImage={addStickerImage} />
+                <WatermarkPanel value={watermark} onChange={setWatermark} />
+              </div>
+              {/* Preview canvas: a size container, so style lengths scale with it like they do on export */}
               <div
-                key={slot.id}
-                className={`aspect-square rounded-xl grid-slot relative group overflow-hidden ${
-                  slot.file ? 'filled' : 'empty'
-                } ${dragOverSlot === slot.id ? 'drag-over' : ''}`}
-                onDrop={(e) => handleDrop(e, slot.id)}
-                onDragOver={(e) => handleDragOver(e, slot.id)}
-                onDragLeave={handleDragLeave}
+                className="relative mx-auto"
+                style={{
+                  aspectRatio: canvasLayout.aspect,
+                  maxWidth: `min(${PREVIEW_SIZE}rem, ${PREVIEW_SIZE * canvasLayout.aspect}rem)`,
+                  containerType: 'inline-size',
+                  background: backgroundCss(style.background)
+                }}
               >
-                {slot.preview ? (
-                  <>
-                    <img
-                      src={slot.preview}
-                      alt={`${t("position")} ${slot.id + 1}`}
-                      className="w-full h-full object-cover"
+                <div className="absolute" style={{ inset: previewLength(style.padding, canvasLayout.aspect) }}>
+                  {images.map((slot) => (
+                    <GridSlot
+                      key={slot.id}
+                      slot={slot}
+                      style={{
+                        ...cellStyle(layout.cells[slot.id], previewLength(style.gap, canvasLayout.aspect)),
+                        ...cellPreviewStyle(style, canvasLayout.aspect, isFilled(slot))
+                      }}
+                      {...previewAdjustments(slot)}
+                      canvasAspect={canvasLayout.aspect}
+                      exportSize={exportSettings.size}
+                      isDragOver={dragOverSlot === slot.id}
+                      isPicked={pickedSlot === slot.id}
+                      isMoveTarget={(pickedSlot !== null && pickedSlot !== slot.id) || pickedTrayImage !== null}
+                      onDrop={(e) => handleDrop(e, slot.id)}
+                      onDragOver={(e) => handleDragOver(e, slot.id)}
+                      onDragLeave={handleDragLeave}
+                      onCropChange={(crop) => updateCrop(slot.id, crop)}
+                      onAdjustmentsChange={(adjustments) => updateAdjustments(slot.id, adjustments)}
+                      onTileChange={(tile, key) => updateTile(slot.id, tile, key)}
+                      onAddText={() => addText(slot.id)}
+                      onRemove={() => removeImage(slot.id)}
+                      onPick={() => pickSlot(slot.id)}
+                      onMoveHere={() => moveHere(slot.id)}
+                      onHandleKeyDown={(e) => handleSlotKeyDown(e, slot.id)}
                     />
-                    <Button
-                      onClick={() => removeImage(slot.id)}
-                      size="sm"
-                      variant="destructive"
-                      className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 w-8 h-8 p-0"
+                  ))}
+                  {layout.cells.map((cell, index) => pageTexts.some(layer => layer.cell === index) && (
+                    <div
+                      key={index}
+                      className="pointer-events-none"
+                      style={cellStyle(cell, previewLength(style.gap, canvasLayout.aspect))}
                     >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </>
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center">
-                    <div className="text-center">
-                      <ImageIcon className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                      <span className="text-xs text-muted-foreground">
-                        {t("position")} {slot.id + 1}
-                      </span>
+                      {pageTexts.filter(layer => layer.cell === index).map(renderText)}
                     </div>
-                  </div>
+                  ))}
+                </div>
+                {pageTexts.filter(layer => layer.cell === null).map(renderText)}
+                <div className="absolute inset-0 pointer-events-none">
+                  {pageStickers.map((sticker) => (
+                    <StickerOverlay
+                      key={sticker.id}
+                      sticker={sticker}
+                      aspect={canvasLayout.aspect}
+                      isSelected={sticker.id === selectedSticker}
+                      onSelect={() => setSelectedSticker(sticker.id)}
+                      onChange={(patch, key) => updateSticker(sticker.id, patch, key)}
+                      onReorder={(direction) => moveStickerLayer(sticker.id, direction)}
+                      onRemove={() => removeSticker(sticker.id)}
+                    />
+                  ))}
+                </div>
+              </div>
+              {selectedLayer && (
+                <TextLayerPanel
+                  layer={selectedLayer}
+                  cellCount={slotCount}
+                  exportSize={exportSettings.size}
+                  onChange={(patch, key) => updateText(selectedLayer.id, patch, key)}
+                  onRemove={() => removeText(selectedLayer.id)}
+                  onClose={() => setSelectedText(null)}
+                />
+              )}
+              <p className="text-xs text-muted-foreground text-center mt-4">
+                {t("cropHint")}
+              </p>
+              <p className="text-xs text-muted-foreground text-center mt-1">
+                {pickedSlot === null && pickedTrayImage === null ? t("moveHint") : t("moveActiveHint")}
+              </p>
+              <ImageTray
+                library={library}
+                placed={placedPreviews}
+                pickedPreview={pickedTrayImage}
+                onPick={pickTrayImage}
+                onRemove={deleteFromLibrary}
+                onReturnSlot={removeImage}
+              />
+              <div className="flex flex-wrap items-center justify-center gap-2 mt-4 text-xs text-muted-foreground">
+                <Database className="w-3 h-3" />
+                <span className={savedSession.status === 'quotaExceeded' ? 'text-destructive' : ''}>
+                  {savedSession.status === 'saved' && `${t("storageSaved")} · ${formatFileSize(savedSession.savedBytes)}`}
+                  {savedSession.status === 'quotaExceeded' && t("storageQuotaExceeded")}
+                  {savedSession.status === 'unavailable' && t("storageUnavailable")}
+                  {savedSession.status === 'idle' && t("storageIdle")}
+                </span>
+                {savedSession.status === 'saved' && (
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={clearSavedSession}>
+                    {t("storageClear")}
+                  </Button>
                 )}
               </div>
-            ))}
-          </div>
-        </section>
-
-        {/* Hidden file input */}
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          accept="image/*"
-          className="hidden"
-          onChange={(e) => e.target.files && handleFileSelect(e.target.files)}
-        />
+            </section>
+
+            <RestoreSessionDialog
+              session={savedSession.pendingSession}
+              onRestore={savedSession.restore}
+              onDiscard={savedSession.discard}
+            />
+
+            <ExportDialog
+              open={exportOpen}
+              onOpenChange={setExportOpen}
+              slots={images}
+              layout={canvasLayout}
+              style={style}
+              overlays={pageOverlays}
+              watermark={watermark}
+              settings={exportSettings}
+              onSettingsChange={setExportSettings}
+              onExport={exportComposite}
+              onExportAnimation={exportAnimation}
+            />
+
+            <VideoFramePicker
+              file={videoQueue[0] ?? null}
+              defaultCount={slotCount}
+              onClose={() => setVideoQueue(queue => queue.slice(1))}
+              onAdd={(files) => {
+                setVideoQueue(queue => queue.slice(1));
+                handleFileSelect(files);
+              }}
+            />
+
+            <TemplateEditor
+              open={templateEditorOpen}
+              onOpenChange={setTemplateEditorOpen}
+              template={editingTemplate}
+              onSave={saveTemplate}
+            />
+
+            {/* Hidden file input */}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,video/*,.heic,.heif"
+              className="hidden"
+              onChange={(e) => e.target.files && handleFileSelect(e.target.files)}
+            />
+          </TabsContent>
+
+          <TabsContent value="split" className="mt-0">
+            <PhotoSplitter watermark={watermark} />
+          </TabsContent>
+        </Tabs>
       </div>
     </main>
   );
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useLanguage } from '@/hooks/useLanguage';
+import { formatFileSize } from '@/lib/exportSettings';
+import type { PhotoMetadata } from '@/lib/photoMetadata';
+
+interface PhotoInfoPopoverProps {
+  file: File;
+  metadata: PhotoMetadata | null;
+  /** The trigger button. */
+  children: React.ReactNode;
+}
+
+/** File name, size, dimensions, capture time and camera of a photo in a slot. */
+const PhotoInfoPopover: React.FC<PhotoInfoPopoverProps> = ({ file, metadata, children }) => {
+  const { language, t } = useLanguage();
+  const unknown = t("photoInfoUnknown");
+
+  const rows: [string, string][] = [
+    [t("photoInfoName"), file.name],
+    [t("photoInfoFileSize"), formatFileSize(file.size)],
+    [t("photoInfoDimensions"), metadata ? `${metadata.width} × ${metadata.height} px` : unknown],
+    [
+      t("photoInfoTakenAt"),
+      metadata?.takenAt
+        ? new Date(metadata.takenAt).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US')
+        : unknown
+    ],
+    [t("photoInfoCamera"), metadata?.camera ?? unknown],
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <h4 className="text-sm font-semibold">{t("photoInfo")}</h4>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-sm">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="truncate" title={value}>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PhotoInfoPopover;
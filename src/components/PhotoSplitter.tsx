@@ -0,0 +1,287 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, Download, ImageIcon, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { loadImage, loadWatermarkLogo, stampWatermark } from '@/lib/renderGrid';
+import { canvasToBlob, createZip, downloadBlob, sequenceFileName } from '@/lib/download';
+import { splitImage, TILE_ASPECTS, type PostingOrder } from '@/lib/splitImage';
+import type { Watermark } from '@/lib/watermark';
+
+const SPLIT_COLUMNS = 3;
+const TILE_WIDTH = 1080;
+
+interface PhotoSplitterProps {
+  /** Stamped onto every downloaded tile, as on the grid's exports. */
+  watermark: Watermark;
+}
+
+interface TilePreview {
+  row: number;
+  col: number;
+  postIndex: number;
+  url: string;
+}
+
+const PhotoSplitter: React.FC<PhotoSplitterProps> = ({ watermark }) => {
+  const [source, setSource] = useState<{ file: File; preview: string } | null>(null);
+  const [rows, setRows] = useState(3);
+  const [tileAspect, setTileAspect] = useState(TILE_ASPECTS[0].value);
+  const [gutterEnabled, setGutterEnabled] = useState(true);
+  const [gutterPercent, setGutterPercent] = useState(1);
+  const [order, setOrder] = useState<PostingOrder>('instagram');
+  const [tiles, setTiles] = useState<TilePreview[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const options = useMemo(() => ({
+    rows,
+    cols: SPLIT_COLUMNS,
+    tileWidth: TILE_WIDTH,
+    tileAspect,
+    gutter: gutterEnabled ? gutterPercent / 100 : 0,
+    order,
+  }), [rows, tileAspect, gutterEnabled, gutterPercent, order]);
+
+  useEffect(() => {
+    if (!source) {
+      setTiles([]);
+      return;
+    }
+
+    let cancelled = false;
+    loadImage(source.preview).then((image) => {
+      if (cancelled) return;
+      const previews = splitImage(image, options).map(({ row, col, postIndex, canvas }) => ({
+        row,
+        col,
+        postIndex,
+        url: canvas.toDataURL('image/jpeg', 0.7),
+      }));
+      setTiles(previews.sort((a, b) => a.row - b.row || a.col - b.col));
+    }).catch(() => {
+      if (cancelled) return;
+      // A file the browser cannot decode is dropped, so the user can pick another
+      setSource(null);
+      toast({
+        title: t("fileFormatError"),
+        description: t("fileFormatErrorDesc"),
+        variant: "destructive"
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, options, watermark, toast, t]);
+
+  // The object URL lives as long as its source, including when the splitter unmounts
+  useEffect(() => {
+    if (!source) return;
+    return () => URL.revokeObjectURL(source.preview);
+  }, [source]);
+
+  const handleFileSelect = useCallback((files: FileList) => {
+    const file = Array.from(files).find(f => f.type.startsWith('image/'));
+
+    if (!file) {
+      toast({
+        title: t("fileFormatError"),
+        description: t("fileFormatErrorDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSource({ file, preview: URL.createObjectURL(file) });
+  }, [toast, t]);
+
+  const clearSource = useCallback(() => setSource(null), []);
+
+  const downloadTiles = useCallback(async () => {
+    if (!source) {
+      toast({
+        title: t("noImages"),
+        description: t("splitNoImageDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const image = await loadImage(source.preview);
+      const logo = await loadWatermarkLogo(watermark);
+      const entries = await Promise.all(splitImage(image, options).map(async (tile) => {
+        stampWatermark(tile.canvas, watermark, logo);
+        return {
+          name: sequenceFileName(tile.postIndex, 'jpg'),
+          blob: await canvasToBlob(tile.canvas, 'image/jpeg', 0.92),
+        };
+      }));
+      downloadBlob(await createZip(entries), `切图-${new Date().getTime()}.zip`);
+    } catch {
+      toast({
+        title: t("downloadError"),
+        description: t("downloadErrorDesc"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: t("downloadSuccess"),
+      description: t("splitDownloadSuccessDesc")
+    });
+  }, [source, options, watermark, toast, t]);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap gap-4 justify-center">
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          size="lg"
+          className="gradient-primary text-white shadow-glow hover:shadow-strong transition-all duration-300"
+        >
+          <Upload className="w-5 h-5 mr-2" />
+          {t("splitUpload")}
+        </Button>
+
+        <Button
+          onClick={downloadTiles}
+          variant="outline"
+          size="lg"
+          className="glass border-primary/20 hover:border-primary/40"
+        >
+          <Download className="w-5 h-5 mr-2" />
+          {t("splitDownload")}
+        </Button>
+      </div>
+
+      <section className="glass-card rounded-2xl p-6 space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 items-end">
+          <div className="space-y-2">
+            <Label>{t("splitRows")}</Label>
+            <Select value={String(rows)} onValueChange={(value) => setRows(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4, 5].map((n) => (
+                  <SelectItem key={n} value={String(n)}>{n}×{SPLIT_COLUMNS}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("splitTileAspect")}</Label>
+            <Select value={String(tileAspect)} onValueChange={(value) => setTileAspect(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TILE_ASPECTS.map((aspect) => (
+                  <SelectItem key={aspect.label} value={String(aspect.value)}>{aspect.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("splitOrder")}</Label>
+            <Select value={order} onValueChange={(value) => setOrder(value as PostingOrder)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="instagram">{t("splitOrderInstagram")}</SelectItem>
+                <SelectItem value="reading">{t("splitOrderReading")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Switch id="split-gutter" checked={gutterEnabled} onCheckedChange={setGutterEnabled} />
+              <Label htmlFor="split-gutter">{t("splitGutter")} {gutterEnabled && `${gutterPercent}%`}</Label>
+            </div>
+            <Slider
+              value={[gutterPercent]}
+              onValueChange={([value]) => setGutterPercent(value)}
+              min={0.5}
+              max={5}
+              step={0.5}
+              disabled={!gutterEnabled}
+            />
+          </div>
+        </div>
+
+        {source ? (
+          <div className="relative max-w-lg mx-auto">
+            <div
+              className="grid gap-[3px]"
+              style={{ gridTemplateColumns: `repeat(${SPLIT_COLUMNS}, minmax(0, 1fr))` }}
+            >
+              {tiles.map((tile) => (
+                <div key={`${tile.row}-${tile.col}`} className="relative">
+                  <img src={tile.url} alt={`${t("position")} ${tile.postIndex}`} className="w-full block" />
+                  <span className="absolute top-1 left-1 rounded-full bg-black/60 text-white text-xs px-2 py-0.5">
+                    {tile.postIndex}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <Button
+              onClick={clearSource}
+              size="sm"
+              variant="destructive"
+              className="absolute -top-3 -right-3 w-8 h-8 p-0 rounded-full"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+            <p className="text-sm text-muted-foreground text-center mt-4">{t("splitOrderHint")}</p>
+          </div>
+        ) : (
+          <div
+            className={`rounded-2xl p-8 upload-zone grid-slot empty ${isDragging ? 'drag-over' : ''}`}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              handleFileSelect(e.dataTransfer.files);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+          >
+            <div className="text-center">
+              <ImageIcon className="w-8 h-8 mx-auto mb-2 text-primary" />
+              <h3 className="text-lg font-semibold mb-1">{t("splitDragHere")}</h3>
+              <p className="text-sm text-muted-foreground">{t("splitDescription")}</p>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) handleFileSelect(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default PhotoSplitter;
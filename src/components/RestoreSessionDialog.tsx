@@ -0,0 +1,44 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { SavedSession } from '@/lib/sessionStore';
+
+interface RestoreSessionDialogProps {
+  session: SavedSession | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const RestoreSessionDialog: React.FC<RestoreSessionDialogProps> = ({ session, onRestore, onDiscard }) => {
+  const { language, t } = useLanguage();
+  const imageCount = session?.library.length ?? 0;
+  const savedAt = session ? new Date(session.savedAt).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US') : '';
+
+  return (
+    <AlertDialog open={session !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t("restoreTitle")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t("restoreDescription")} {savedAt} · {imageCount} {t("uploadSuccessDesc2")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard}>{t("restoreDiscard")}</AlertDialogCancel>
+          <AlertDialogAction onClick={onRestore}>{t("restoreConfirm")}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RestoreSessionDialog;
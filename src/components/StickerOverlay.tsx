@@ -0,0 +1,184 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, RotateCw, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import {
+  emojiPreviewStyle,
+  MAX_STICKER_SIZE,
+  MIN_STICKER_SIZE,
+  stickerImageUrl,
+  stickerPreviewStyle,
+  type Sticker,
+} from '@/lib/stickers';
+
+interface StickerOverlayProps {
+  sticker: Sticker;
+  /** Width divided by height of the canvas, for the preview lengths. */
+  aspect: number;
+  isSelected: boolean;
+  onSelect: () => void;
+  /** `key` names the transform being changed, so one drag becomes one undo step. */
+  onChange: (patch: Partial<Sticker>, key: string) => void;
+  onReorder: (direction: 1 | -1) => void;
+  onRemove: () => void;
+}
+
+type Gesture = 'move' | 'scale' | 'rotate';
+
+/** Rotation snaps to this step while Shift is held. */
+const ROTATION_SNAP = 15;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * A sticker on the preview canvas. Drag it to move; once selected, the corner handle
+ * scales it, the top handle rotates it and the toolbar changes its stacking order.
+ */
+const StickerOverlay: React.FC<StickerOverlayProps> = ({
+  sticker,
+  aspect,
+  isSelected,
+  onSelect,
+  onChange,
+  onReorder,
+  onRemove,
+}) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const gesture = useRef<{
+    type: Gesture;
+    pointerX: number;
+    pointerY: number;
+    canvas: DOMRect;
+    sticker: Sticker;
+  } | null>(null);
+  const { t } = useLanguage();
+  const imageUrl = stickerImageUrl(sticker.source);
+
+  const center = ({ canvas, sticker: start }: NonNullable<typeof gesture.current>) => ({
+    x: canvas.left + start.x * canvas.width,
+    y: canvas.top + start.y * canvas.height,
+  });
+
+  const startGesture = (type: Gesture) => (e: React.PointerEvent<HTMLElement>) => {
+    const canvas = boxRef.current?.parentElement?.getBoundingClientRect();
+    if (e.button !== 0 || !canvas) return;
+
+    e.stopPropagation();
+    onSelect();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    gesture.current = { type, pointerX: e.clientX, pointerY: e.clientY, canvas, sticker };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const current = gesture.current;
+    if (!current) return;
+
+    // Handles sit inside the sticker box; keep their moves from reaching its own listener too
+    e.stopPropagation();
+    const { canvas, sticker: start } = current;
+    const origin = center(current);
+
+    if (current.type === 'move') {
+      onChange({
+        x: clamp(start.x + (e.clientX - current.pointerX) / canvas.width, 0, 1),
+        y: clamp(start.y + (e.clientY - current.pointerY) / canvas.height, 0, 1),
+      }, 'move');
+    } else if (current.type === 'scale') {
+      const startDistance = Math.hypot(current.pointerX - origin.x, current.pointerY - origin.y);
+      const distance = Math.hypot(e.clientX - origin.x, e.clientY - origin.y);
+      if (startDistance > 0) {
+        onChange({ size: clamp(start.size * (distance / startDistance), MIN_STICKER_SIZE, MAX_STICKER_SIZE) }, 'scale');
+      }
+    } else {
+      const startAngle = Math.atan2(current.pointerY - origin.y, current.pointerX - origin.x);
+      const angle = Math.atan2(e.clientY - origin.y, e.clientX - origin.x);
+      const rotation = start.rotation + ((angle - startAngle) * 180) / Math.PI;
+      onChange({ rotation: e.shiftKey ? Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP : rotation }, 'rotate');
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    if (!gesture.current) return;
+    gesture.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const gestureHandlers = (type: Gesture) => ({
+    onPointerDown: startGesture(type),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  });
+
+  return (
+    <div
+      ref={boxRef}
+      data-sticker
+      className={`pointer-events-auto touch-none cursor-move select-none ${
+        isSelected ? 'outline outline-2 outline-primary outline-offset-2' : ''
+      }`}
+      style={stickerPreviewStyle(sticker, aspect)}
+      {...gestureHandlers('move')}
+    >
+      {imageUrl ? (
+        <img src={imageUrl} alt="" className="w-full h-full" draggable={false} />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center" style={emojiPreviewStyle(sticker, aspect)}>
+          {sticker.source.type === 'emoji' && sticker.source.emoji}
+        </div>
+      )}
+
+      {isSelected && (
+        <>
+          <div className="absolute left-1/2 -top-8 h-6 w-px -translate-x-1/2 bg-primary" />
+          <div
+            className="absolute left-1/2 -top-11 w-6 h-6 -translate-x-1/2 rounded-full bg-primary text-primary-foreground flex items-center justify-center cursor-grab shadow"
+            title={t("stickerRotate")}
+            {...gestureHandlers('rotate')}
+          >
+            <RotateCw className="w-3.5 h-3.5" />
+          </div>
+          <div
+            className="absolute -right-2.5 -bottom-2.5 w-5 h-5 rounded-full border-2 border-primary bg-background cursor-nwse-resize shadow"
+            title={t("stickerScale")}
+            {...gestureHandlers('scale')}
+          />
+          <div
+            className="absolute left-1/2 top-full mt-3 flex gap-1 -translate-x-1/2"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <Button
+              onClick={() => onReorder(1)}
+              size="sm"
+              variant="secondary"
+              className="w-7 h-7 p-0 shadow"
+              title={t("stickerForward")}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => onReorder(-1)}
+              size="sm"
+              variant="secondary"
+              className="w-7 h-7 p-0 shadow"
+              title={t("stickerBackward")}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={onRemove}
+              size="sm"
+              variant="destructive"
+              className="w-7 h-7 p-0 shadow"
+              title={t("stickerDelete")}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StickerOverlay;
@@ -0,0 +1,82 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ImagePlus, Smile } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { BUNDLED_STICKERS, bundledStickerUrl, STICKER_EMOJIS, type StickerSource } from '@/lib/stickers';
+
+interface StickerPickerProps {
+  /** `aspect` is the artwork's width divided by its height. */
+  onAdd: (source: StickerSource, aspect: number) => void;
+  /** Adds an image file of the user's own; the caller measures it. */
+  onAddImage: (file: File) => void;
+}
+
+const StickerPicker: React.FC<StickerPickerProps> = ({ onAdd, onAddImage }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLanguage();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="glass border-primary/20">
+          <Smile className="w-4 h-4 mr-1" />
+          {t("stickers")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">{t("stickerEmoji")}</h4>
+          <div className="grid grid-cols-8 gap-1">
+            {STICKER_EMOJIS.map((emoji) => (
+              <button
+                key={emoji}
+                type="button"
+                className="h-8 rounded-md text-xl hover:bg-accent"
+                onClick={() => onAdd({ type: 'emoji', emoji }, 1)}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">{t("stickerBundled")}</h4>
+          <div className="grid grid-cols-5 gap-1">
+            {BUNDLED_STICKERS.map((sticker) => (
+              <button
+                key={sticker.id}
+                type="button"
+                className="h-12 p-1.5 rounded-md hover:bg-accent"
+                onClick={() => onAdd({ type: 'bundled', id: sticker.id }, sticker.aspect)}
+              >
+                <img src={bundledStickerUrl(sticker)} alt={sticker.id} className="w-full h-full object-contain" />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Button variant="outline" size="sm" className="w-full" onClick={() => imageInputRef.current?.click()}>
+          <ImagePlus className="w-4 h-4 mr-1" />
+          {t("stickerUpload")}
+        </Button>
+        <p className="text-xs text-muted-foreground">{t("stickerHint")}</p>
+
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/png,image/webp,image/gif,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file?.type.startsWith('image/')) onAddImage(file);
+            e.target.value = '';
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StickerPicker;
@@ -0,0 +1,210 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Columns2, Merge, Rows2, Square } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { cellStyle, type LayoutCell, type UserTemplate } from '@/lib/layouts';
+import {
+  canMerge,
+  hasDivider,
+  mergeCells,
+  moveDivider,
+  splitCell,
+  type DividerEdge,
+  type SplitDirection,
+} from '@/lib/layoutEditing';
+import { createTemplateId } from '@/lib/templateStore';
+
+interface TemplateEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Template to edit; one with an empty id is saved as a new template. */
+  template: UserTemplate;
+  onSave: (template: UserTemplate) => void;
+}
+
+/** Gap between cells in the editor canvas, in pixels. */
+const EDITOR_GAP = 8;
+
+const SINGLE_CELL: LayoutCell[] = [{ x: 0, y: 0, w: 1, h: 1 }];
+
+/** Covers the gap next to a cell edge, where the divider is drawn and grabbed. */
+const dividerStyle = (cell: LayoutCell, edge: DividerEdge): React.CSSProperties => {
+  const across = `calc(${edge === 'right' ? cell.y : cell.x} * (100% + ${EDITOR_GAP}px))`;
+  const length = `calc(${edge === 'right' ? cell.h : cell.w} * (100% + ${EDITOR_GAP}px) - ${EDITOR_GAP}px)`;
+  const along = `calc(${edge === 'right' ? cell.x + cell.w : cell.y + cell.h} * (100% + ${EDITOR_GAP}px) - ${EDITOR_GAP}px)`;
+
+  return edge === 'right'
+    ? { position: 'absolute', left: along, top: across, width: EDITOR_GAP, height: length }
+    : { position: 'absolute', top: along, left: across, height: EDITOR_GAP, width: length };
+};
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ open, onOpenChange, template, onSave }) => {
+  const [name, setName] = useState(template.name);
+  const [cells, setCells] = useState(template.cells);
+  const [selected, setSelected] = useState<number[]>([]);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template.name);
+    setCells(template.cells);
+    setSelected([]);
+  }, [open, template]);
+
+  // Selecting a third cell starts over, so split and merge always act on the latest picks
+  const toggleCell = (index: number) => {
+    setSelected(prev => {
+      if (prev.includes(index)) return prev.filter(i => i !== index);
+      return prev.length >= 2 ? [index] : [...prev, index];
+    });
+  };
+
+  const split = (direction: SplitDirection) => {
+    if (selected.length !== 1) return;
+    setCells(prev => splitCell(prev, selected[0], direction));
+    setSelected([]);
+  };
+
+  const merge = () => {
+    if (selected.length !== 2) return;
+    setCells(prev => mergeCells(prev, selected[0], selected[1]));
+    setSelected([]);
+  };
+
+  const startDividerDrag = (e: React.PointerEvent, index: number, edge: DividerEdge) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = canvas.getBoundingClientRect();
+
+    const handleMove = (event: PointerEvent) => {
+      // Invert `cellRect`: the divider's center sits half a gap before the next cell
+      const position = edge === 'right'
+        ? (event.clientX - rect.left + EDITOR_GAP / 2) / (rect.width + EDITOR_GAP)
+        : (event.clientY - rect.top + EDITOR_GAP / 2) / (rect.height + EDITOR_GAP);
+      setCells(prev => moveDivider(prev, index, edge, position));
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const mergeable = selected.length === 2 && canMerge(cells[selected[0]], cells[selected[1]]);
+
+  const handleSave = () => {
+    onSave({ ...template, id: template.id || createTemplateId(), name: name.trim(), cells });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{template.id ? t("templateEdit") : t("templateNew")}</DialogTitle>
+          <DialogDescription>{t("templateEditorDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">{t("templateName")}</Label>
+            <Input id="template-name" value={name} maxLength={60} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => split('columns')} disabled={selected.length !== 1}>
+              <Columns2 className="w-4 h-4 mr-1" />
+              {t("templateSplitColumns")}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => split('rows')} disabled={selected.length !== 1}>
+              <Rows2 className="w-4 h-4 mr-1" />
+              {t("templateSplitRows")}
+            </Button>
+            <Button size="sm" variant="outline" onClick={merge} disabled={!mergeable}>
+              <Merge className="w-4 h-4 mr-1" />
+              {t("templateMerge")}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setCells(SINGLE_CELL);
+                setSelected([]);
+              }}
+            >
+              <Square className="w-4 h-4 mr-1" />
+              {t("templateClear")}
+            </Button>
+          </div>
+
+          <div
+            ref={canvasRef}
+            className="relative mx-auto select-none touch-none"
+            style={{ aspectRatio: template.aspect, maxWidth: `min(100%, ${20 * template.aspect}rem)` }}
+          >
+            {cells.map((cell, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => toggleCell(index)}
+                className={`rounded-md border-2 text-xs transition-colors ${
+                  selected.includes(index)
+                    ? 'border-primary bg-primary/20 text-primary'
+                    : 'border-dashed border-primary/30 bg-primary/5 text-muted-foreground hover:bg-primary/10'
+                }`}
+                style={cellStyle(cell, `${EDITOR_GAP}px`)}
+                aria-pressed={selected.includes(index)}
+              >
+                {index + 1}
+              </button>
+            ))}
+            {cells.flatMap((cell, index) =>
+              (['right', 'bottom'] as const)
+                .filter(edge => hasDivider(cells, index, edge))
+                .map(edge => (
+                  <div
+                    key={`${index}-${edge}`}
+                    onPointerDown={(e) => startDividerDrag(e, index, edge)}
+                    className={`z-10 rounded-full hover:bg-primary/40 active:bg-primary/60 ${
+                      edge === 'right' ? 'cursor-col-resize' : 'cursor-row-resize'
+                    }`}
+                    style={dividerStyle(cell, edge)}
+                    role="separator"
+                    aria-orientation={edge === 'right' ? 'vertical' : 'horizontal'}
+                  />
+                ))
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground text-center">{t("templateEditorHint")}</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim()} className="gradient-primary text-white">
+            {t("templateSave")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Trash2 } from 'lucide-react';
+import TextStyleControls from '@/components/TextStyleControls';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { TextLayer } from '@/lib/textLayers';
+
+interface TextLayerPanelProps {
+  layer: TextLayer;
+  /** Number of cells in the layout, for the placement choice. */
+  cellCount: number;
+  /** Long edge of the export, used to show the font size in pixels. */
+  exportSize: number;
+  /** `key` names the setting being changed, so one slider drag becomes one undo step. */
+  onChange: (patch: Partial<TextLayer>, key: string) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const CANVAS_SCOPE = 'canvas';
+
+/** Settings of the selected text layer; the text itself is edited on the preview. */
+const TextLayerPanel: React.FC<TextLayerPanelProps> = ({ layer, cellCount, exportSize, onChange, onRemove, onClose }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="glass rounded-xl p-4 mt-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="text-sm font-semibold mr-auto">{t("textSettings")}</h4>
+        <Select
+          value={layer.cell === null ? CANVAS_SCOPE : String(layer.cell)}
+          onValueChange={(scope) => onChange({ cell: scope === CANVAS_SCOPE ? null : Number(scope) }, 'cell')}
+        >
+          <SelectTrigger className="w-36 h-8" aria-label={t("textPlacement")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CANVAS_SCOPE}>{t("textWholeCanvas")}</SelectItem>
+            {Array.from({ length: cellCount }, (_, index) => (
+              <SelectItem key={index} value={String(index)}>{t("position")} {index + 1}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="h-8" onClick={onRemove}>
+          <Trash2 className="w-4 h-4 mr-1" />
+          {t("textDelete")}
+        </Button>
+        <Button size="sm" className="h-8" onClick={onClose}>
+          <Check className="w-4 h-4 mr-1" />
+          {t("textDone")}
+        </Button>
+      </div>
+
+      <TextStyleControls value={layer} exportSize={exportSize} onChange={onChange} />
+    </div>
+  );
+};
+
+export default TextLayerPanel;
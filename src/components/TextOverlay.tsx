@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { textPreviewStyle, type TextStyle } from '@/lib/textLayers';
+
+interface TextOverlayProps {
+  layer: TextStyle;
+  /** Width divided by height of the canvas, for the preview lengths. */
+  aspect: number;
+  isSelected?: boolean;
+  onSelect?: () => void;
+  /** `key` names what changed, so one drag becomes one undo step. */
+  onChange: (patch: Partial<TextStyle>, key: string) => void;
+}
+
+/**
+ * Text on the preview, positioned inside its offset parent (a cell, a text tile or the canvas).
+ * Drag to move it; double-click to edit the text in place, Escape cancels and blur commits.
+ */
+const TextOverlay: React.FC<TextOverlayProps> = ({ layer, aspect, isSelected = false, onSelect, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const textRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number; width: number; height: number } | null>(null);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    const element = textRef.current;
+    if (!isEditing || !element) return;
+
+    element.focus();
+    const selection = window.getSelection();
+    selection?.selectAllChildren(element);
+  }, [isEditing]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isEditing || e.button !== 0) return;
+    const area = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (!area) return;
+
+    onSelect?.();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: layer.x, y: layer.y, width: area.width, height: area.height };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    onChange({
+      x: clamp(start.x + (e.clientX - start.pointerX) / start.width),
+      y: clamp(start.y + (e.clientY - start.pointerY) / start.height),
+    }, 'position');
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    dragStart.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const commitText = () => {
+    setIsEditing(false);
+    const text = textRef.current?.innerText.replace(/\n$/, '') ?? '';
+    if (text.trim() && text !== layer.text) onChange({ text }, 'text');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Escape') return;
+    e.preventDefault();
+    if (textRef.current) textRef.current.innerText = layer.text;
+    textRef.current?.blur();
+  };
+
+  return (
+    <div
+      // Remounted whenever the text changes, since editing rewrites the element's children behind React's back
+      key={layer.text}
+      ref={textRef}
+      className={`pointer-events-auto rounded-sm outline-none ${
+        isEditing ? 'cursor-text select-text ring-2 ring-primary' : 'cursor-move select-none'
+      } ${isSelected && !isEditing ? 'ring-2 ring-primary/60 ring-offset-1' : ''}`}
+      style={textPreviewStyle(layer, aspect)}
+      contentEditable={isEditing}
+      suppressContentEditableWarning
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setIsEditing(true)}
+      onBlur={() => isEditing && commitText()}
+      onKeyDown={isEditing ? handleKeyDown : undefined}
+      title={t("textEditHint")}
+    >
+      {layer.text}
+    </div>
+  );
+};
+
+export default TextOverlay;
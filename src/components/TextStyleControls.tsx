@@ -0,0 +1,114 @@
+import React, { useId } from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AlignCenter, AlignLeft, AlignRight, Bold } from 'lucide-react';
+import ColorInput from '@/components/ColorInput';
+import { useLanguage } from '@/hooks/useLanguage';
+import { MAX_TEXT_SIZE, MAX_TEXT_STROKE, MIN_TEXT_SIZE, TEXT_FONTS, type TextAlign, type TextStyle } from '@/lib/textLayers';
+
+interface TextStyleControlsProps {
+  value: TextStyle;
+  /** Long edge of the export, used to show the font size in pixels. */
+  exportSize: number;
+  /** `key` names the setting being changed, so one slider drag becomes one undo step. */
+  onChange: (patch: Partial<TextStyle>, key: string) => void;
+}
+
+const SLIDER_STEPS = 100;
+
+/** Font, alignment, color, size, outline and shadow of a piece of text. */
+const TextStyleControls: React.FC<TextStyleControlsProps> = ({ value, exportSize, onChange }) => {
+  const shadowId = useId();
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={value.font} onValueChange={(font) => onChange({ font }, 'font')}>
+          <SelectTrigger className="w-36 h-8" aria-label={t("textFont")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TEXT_FONTS.map((font) => (
+              <SelectItem key={font.id} value={font.id}>
+                <span style={{ fontFamily: font.family }}>{t(font.nameKey)}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={value.bold ? ['bold'] : []}
+          onValueChange={(styles) => onChange({ bold: styles.includes('bold') }, 'bold')}
+        >
+          <ToggleGroupItem value="bold" aria-label={t("textBold")}>
+            <Bold className="w-4 h-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={value.align}
+          onValueChange={(align) => align && onChange({ align: align as TextAlign }, 'align')}
+        >
+          <ToggleGroupItem value="left" aria-label={t("textAlignLeft")}>
+            <AlignLeft className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="center" aria-label={t("textAlignCenter")}>
+            <AlignCenter className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="right" aria-label={t("textAlignRight")}>
+            <AlignRight className="w-4 h-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <ColorInput value={value.color} onChange={(color) => onChange({ color }, 'color')} label={t("textColor")} />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>{t("textSize")}</Label>
+            <span className="text-xs text-muted-foreground">{Math.round(value.size * exportSize)} px</span>
+          </div>
+          <Slider
+            value={[((value.size - MIN_TEXT_SIZE) / (MAX_TEXT_SIZE - MIN_TEXT_SIZE)) * SLIDER_STEPS]}
+            onValueChange={([step]) =>
+              onChange({ size: MIN_TEXT_SIZE + (step / SLIDER_STEPS) * (MAX_TEXT_SIZE - MIN_TEXT_SIZE) }, 'size')
+            }
+            min={0}
+            max={SLIDER_STEPS}
+            step={1}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>{t("textStroke")}</Label>
+            <ColorInput
+              value={value.strokeColor}
+              onChange={(strokeColor) => onChange({ strokeColor }, 'strokeColor')}
+              label={t("textStrokeColor")}
+            />
+          </div>
+          <Slider
+            value={[(value.strokeWidth / MAX_TEXT_STROKE) * SLIDER_STEPS]}
+            onValueChange={([step]) => onChange({ strokeWidth: (step / SLIDER_STEPS) * MAX_TEXT_STROKE }, 'strokeWidth')}
+            min={0}
+            max={SLIDER_STEPS}
+            step={1}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id={shadowId} checked={value.shadow} onCheckedChange={(shadow) => onChange({ shadow }, 'shadow')} />
+        <Label htmlFor={shadowId}>{t("textShadow")}</Label>
+      </div>
+    </div>
+  );
+};
+
+export default TextStyleControls;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import ColorInput from '@/components/ColorInput';
+import TextStyleControls from '@/components/TextStyleControls';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { SlotTile, TileFill } from '@/lib/grid';
+import { TEXT_FONTS } from '@/lib/textLayers';
+
+interface TilePopoverProps {
+  /** The slot's tile, or null while the slot is empty. */
+  value: SlotTile | null;
+  /** Long edge of the export, used to show the font size in pixels. */
+  exportSize: number;
+  /** `key` names the setting being changed, so one slider drag becomes one undo step. */
+  onChange: (tile: SlotTile, key: string) => void;
+  /** The trigger button. */
+  children: React.ReactNode;
+}
+
+const DEFAULT_FILL: TileFill = { type: 'solid', color: '#f5efe6' };
+
+const switchFill = (fill: TileFill, type: TileFill['type']): TileFill => {
+  if (type === 'solid') return { type, color: fill.type === 'gradient' ? fill.from : fill.color };
+  return { type, from: fill.type === 'solid' ? fill.color : fill.from, to: '#e0e7ff', angle: 135 };
+};
+
+const FillControls: React.FC<{ value: TileFill; onChange: (fill: TileFill, key: string) => void }> = ({
+  value,
+  onChange,
+}) => {
+  const { t } = useLanguage();
+
+  if (value.type === 'solid') {
+    return (
+      <ColorInput value={value.color} onChange={(color) => onChange({ ...value, color }, 'color')} label={t("styleSolid")} />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <ColorInput
+          value={value.from}
+          onChange={(from) => onChange({ ...value, from }, 'gradientFrom')}
+          label={t("styleGradientFrom")}
+        />
+        <ColorInput value={value.to} onChange={(to) => onChange({ ...value, to }, 'gradientTo')} label={t("styleGradientTo")} />
+      </div>
+      <Slider
+        value={[value.angle]}
+        onValueChange={([angle]) => onChange({ ...value, angle }, 'gradientAngle')}
+        min={0}
+        max={360}
+        step={5}
+        aria-label={t("styleGradientAngle")}
+      />
+    </div>
+  );
+};
+
+/** Turns a slot into a solid, gradient or text tile and edits it. */
+const TilePopover: React.FC<TilePopoverProps> = ({ value, exportSize, onChange, children }) => {
+  const { t } = useLanguage();
+  const fill = value === null ? DEFAULT_FILL : value.type === 'text' ? value.background : value;
+
+  const switchType = (type: SlotTile['type']) => {
+    if (type !== 'text') {
+      onChange(switchFill(fill, type), 'type');
+      return;
+    }
+    onChange({
+      type,
+      background: fill,
+      text: '文字 Text',
+      x: 0.5,
+      y: 0.5,
+      font: TEXT_FONTS[0].id,
+      size: 0.05,
+      bold: true,
+      color: '#333333',
+      align: 'center',
+      strokeWidth: 0,
+      strokeColor: '#ffffff',
+      shadow: false,
+    }, 'type');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className={`${value?.type === 'text' ? 'w-96' : 'w-72'} space-y-4`}>
+        <h4 className="text-sm font-semibold">{t("tileTitle")}</h4>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={value?.type ?? ''}
+          onValueChange={(type) => type && switchType(type as SlotTile['type'])}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="solid">{t("styleSolid")}</ToggleGroupItem>
+          <ToggleGroupItem value="gradient">{t("styleGradient")}</ToggleGroupItem>
+          <ToggleGroupItem value="text">{t("tileText")}</ToggleGroupItem>
+        </ToggleGroup>
+
+        {value !== null && value.type !== 'text' && <FillControls value={value} onChange={onChange} />}
+
+        {value?.type === 'text' && (
+          <>
+            <div className="space-y-3">
+              <Label>{t("styleBackground")}</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={value.background.type}
+                onValueChange={(type) =>
+                  type && onChange({ ...value, background: switchFill(value.background, type as TileFill['type']) }, 'background')
+                }
+                className="justify-start"
+              >
+                <ToggleGroupItem value="solid">{t("styleSolid")}</ToggleGroupItem>
+                <ToggleGroupItem value="gradient">{t("styleGradient")}</ToggleGroupItem>
+              </ToggleGroup>
+              <FillControls
+                value={value.background}
+                onChange={(background, key) => onChange({ ...value, background }, `background-${key}`)}
+              />
+            </div>
+            <TextStyleControls
+              value={value}
+              exportSize={exportSize}
+              onChange={(patch, key) => onChange({ ...value, ...patch }, key)}
+            />
+            <p className="text-xs text-muted-foreground">{t("textEditHint")}</p>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TilePopover;
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Camera, Loader2, Wand2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import {
+  captureFrame,
+  evenlySpacedTimes,
+  MAX_AUTO_FRAMES,
+  seekVideo,
+  type VideoFrame,
+} from '@/lib/videoFrames';
+
+interface VideoFramePickerProps {
+  /** The video to take frames from; the dialog is open while one is set. */
+  file: File | null;
+  /** Number of frames auto-pick starts with, such as the slot count of the layout. */
+  defaultCount: number;
+  onClose: () => void;
+  /** Receives the captured frames as JPEG files, in video order. */
+  onAdd: (files: File[]) => void;
+}
+
+/** Scrubber step in seconds, about one frame of a 30 fps video. */
+const SCRUB_STEP = 1 / 30;
+
+const formatTime = (time: number) =>
+  `${Math.floor(time / 60)}:${(time % 60).toFixed(1).padStart(4, '0')}`;
+
+const revokeFrames = (frames: VideoFrame[]) => frames.forEach(frame => URL.revokeObjectURL(frame.preview));
+
+// Some recordings, WebM above all, report an infinite duration until they have been read to the end
+const knownDuration = (video: HTMLVideoElement) => (Number.isFinite(video.duration) ? video.duration : 0);
+
+/** Plays back a video so the user can capture stills from it, one by one or evenly spaced. */
+const VideoFramePicker: React.FC<VideoFramePickerProps> = ({ file, defaultCount, onClose, onAdd }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [frames, setFrames] = useState<VideoFrame[]>([]);
+  const [count, setCount] = useState(defaultCount);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  // Frame previews are only needed while the dialog is open; added frames get their own URLs
+  const framesRef = useRef(frames);
+  framesRef.current = frames;
+
+  useEffect(() => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    setVideoUrl(url);
+    setIsReady(false);
+    setHasError(false);
+    setDuration(0);
+    setCurrentTime(0);
+    setFrames([]);
+    setCount(defaultCount);
+
+    return () => {
+      URL.revokeObjectURL(url);
+      revokeFrames(framesRef.current);
+    };
+  }, [file, defaultCount]);
+
+  const addFrames = (added: VideoFrame[], replace = false) => {
+    // Revoked here rather than in the updater, which React may call twice
+    if (replace) revokeFrames(framesRef.current);
+    setFrames(prev => [...(replace ? [] : prev), ...added].sort((a, b) => a.time - b.time));
+  };
+
+  const reportCaptureError = () => {
+    toast({
+      title: t("videoFramesCaptureError"),
+      description: t("videoFramesCaptureErrorDesc"),
+      variant: "destructive"
+    });
+  };
+
+  const captureCurrent = async () => {
+    const video = videoRef.current;
+    if (!video || !file) return;
+
+    video.pause();
+    setIsCapturing(true);
+    try {
+      addFrames([await captureFrame(video, file.name)]);
+    } catch {
+      reportCaptureError();
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const autoPick = async () => {
+    const video = videoRef.current;
+    if (!video || !file) return;
+
+    video.pause();
+    setIsCapturing(true);
+    try {
+      const picked: VideoFrame[] = [];
+      for (const time of evenlySpacedTimes(duration, count)) {
+        await seekVideo(video, time);
+        picked.push(await captureFrame(video, file.name));
+      }
+      addFrames(picked, true);
+    } catch {
+      reportCaptureError();
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const removeFrame = (frame: VideoFrame) => {
+    URL.revokeObjectURL(frame.preview);
+    setFrames(prev => prev.filter(item => item !== frame));
+  };
+
+  // A playback error may only affect part of the video, so the controls stay usable once it has loaded
+  const canCapture = isReady && !isCapturing;
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("videoFramesTitle")}</DialogTitle>
+          <DialogDescription>{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {hasError && <p className="text-sm text-destructive">{t("videoFramesError")}</p>}
+          {videoUrl && (
+            <video
+              ref={videoRef}
+              src={videoUrl}
+              className="w-full max-h-[45vh] rounded-md bg-black"
+              muted
+              playsInline
+              preload="auto"
+              onClick={(e) => (e.currentTarget.paused ? e.currentTarget.play() : e.currentTarget.pause())}
+              onLoadedMetadata={(e) => setDuration(knownDuration(e.currentTarget))}
+              onDurationChange={(e) => setDuration(knownDuration(e.currentTarget))}
+              onLoadedData={() => setIsReady(true)}
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              onError={() => setHasError(true)}
+            />
+          )}
+
+          <div className="flex items-center gap-3">
+            <Slider
+              value={[currentTime]}
+              onValueChange={([time]) => {
+                if (videoRef.current) videoRef.current.currentTime = time;
+                setCurrentTime(time);
+                setHasError(false);
+              }}
+              min={0}
+              max={duration || 1}
+              step={SCRUB_STEP}
+              disabled={!canCapture}
+              aria-label={t("videoFramesScrub")}
+            />
+            <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+              {formatTime(currentTime)} / {formatTime(duration)}
+            </span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" onClick={captureCurrent} disabled={!canCapture}>
+              <Camera className="w-4 h-4 mr-1" />
+              {t("videoFramesCapture")}
+            </Button>
+            <div className="flex items-center gap-2 ml-auto">
+              <Label htmlFor="video-frame-count" className="whitespace-nowrap">{t("videoFramesAutoCount")}</Label>
+              <Input
+                id="video-frame-count"
+                type="number"
+                min={1}
+                max={MAX_AUTO_FRAMES}
+                value={count}
+                onChange={(e) => setCount(Math.min(MAX_AUTO_FRAMES, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                className="w-20 h-8"
+              />
+              <Button size="sm" variant="outline" onClick={autoPick} disabled={!canCapture || duration <= 0}>
+                {isCapturing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Wand2 className="w-4 h-4 mr-1" />}
+                {t("videoFramesAutoPick")}
+              </Button>
+            </div>
+          </div>
+
+          {frames.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("videoFramesEmpty")}</p>
+          ) : (
+            <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-48 overflow-y-auto">
+              {frames.map((frame) => (
+                <div key={frame.preview} className="relative group">
+                  <img src={frame.preview} alt="" className="w-full aspect-square object-cover rounded-md" />
+                  <span className="absolute left-1 bottom-1 px-1 rounded bg-black/60 text-[10px] text-white tabular-nums">
+                    {formatTime(frame.time)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="absolute top-1 right-1 w-5 h-5 p-0 opacity-0 group-hover:opacity-100"
+                    onClick={() => removeFrame(frame)}
+                    aria-label={t("videoFramesRemove")}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("cancel")}
+          </Button>
+          <Button
+            onClick={() => onAdd(frames.map(frame => frame.file))}
+            disabled={frames.length === 0 || isCapturing}
+            className="gradient-primary text-white"
+          >
+            {t("videoFramesAdd")} ({frames.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VideoFramePicker;
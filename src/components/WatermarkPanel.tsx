@@ -0,0 +1,190 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ArrowDownLeft, ArrowDownRight, ArrowUpLeft, ArrowUpRight, Crosshair, ImagePlus, Stamp } from 'lucide-react';
+import ColorInput from '@/components/ColorInput';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { TEXT_FONTS } from '@/lib/textLayers';
+import {
+  createLogoDataUrl,
+  WATERMARK_POSITIONS,
+  WATERMARK_SIZE_RANGE,
+  type Watermark,
+  type WatermarkPosition,
+} from '@/lib/watermark';
+
+interface WatermarkPanelProps {
+  value: Watermark;
+  onChange: (watermark: Watermark) => void;
+}
+
+const POSITION_OPTIONS: Record<WatermarkPosition, { icon: typeof Stamp; labelKey: string }> = {
+  'top-left': { icon: ArrowUpLeft, labelKey: 'watermarkTopLeft' },
+  'top-right': { icon: ArrowUpRight, labelKey: 'watermarkTopRight' },
+  center: { icon: Crosshair, labelKey: 'watermarkCenter' },
+  'bottom-left': { icon: ArrowDownLeft, labelKey: 'watermarkBottomLeft' },
+  'bottom-right': { icon: ArrowDownRight, labelKey: 'watermarkBottomRight' },
+};
+
+const SLIDER_STEPS = 100;
+
+/** Settings of the watermark stamped onto every export; they are remembered in this browser. */
+const WatermarkPanel: React.FC<WatermarkPanelProps> = ({ value, onChange }) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [minSize, maxSize] = WATERMARK_SIZE_RANGE;
+
+  const update = (patch: Partial<Watermark>) => onChange({ ...value, ...patch });
+
+  const handleLogo = async (file: File) => {
+    try {
+      update({ type: 'logo', logo: await createLogoDataUrl(file) });
+    } catch {
+      toast({
+        title: t("fileFormatError"),
+        description: t("fileFormatErrorDesc"),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={value.enabled ? 'secondary' : 'outline'} size="sm" className="glass border-primary/20">
+          <Stamp className="w-4 h-4 mr-1" />
+          {t("watermark")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-5">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="watermark-enabled">{t("watermarkEnabled")}</Label>
+          <Switch id="watermark-enabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+
+        <div className="space-y-3">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={value.type}
+            onValueChange={(type) => type && update({ type: type as Watermark['type'] })}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="text">{t("watermarkText")}</ToggleGroupItem>
+            <ToggleGroupItem value="logo">{t("watermarkLogo")}</ToggleGroupItem>
+          </ToggleGroup>
+
+          {value.type === 'text' ? (
+            <div className="space-y-2">
+              <Input
+                value={value.text}
+                onChange={(e) => update({ text: e.target.value })}
+                placeholder={t("watermarkTextPlaceholder")}
+                maxLength={200}
+              />
+              <div className="flex items-center gap-2">
+                <Select value={value.font} onValueChange={(font) => update({ font })}>
+                  <SelectTrigger className="w-36 h-8" aria-label={t("textFont")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEXT_FONTS.map((font) => (
+                      <SelectItem key={font.id} value={font.id}>
+                        <span style={{ fontFamily: font.family }}>{t(font.nameKey)}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ColorInput value={value.color} onChange={(color) => update({ color })} label={t("textColor")} />
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              {value.logo && (
+                <img src={value.logo} alt="" className="w-12 h-12 object-contain rounded-md border bg-muted" />
+              )}
+              <Button variant="outline" size="sm" onClick={() => logoInputRef.current?.click()}>
+                <ImagePlus className="w-4 h-4 mr-1" />
+                {value.logo ? t("watermarkLogoReplace") : t("watermarkLogoUpload")}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="watermark-tiled">{t("watermarkTiled")}</Label>
+            <Switch id="watermark-tiled" checked={value.tiled} onCheckedChange={(tiled) => update({ tiled })} />
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={value.position}
+            onValueChange={(position) => position && update({ position: position as WatermarkPosition })}
+            className="justify-start"
+            disabled={value.tiled}
+            aria-label={t("watermarkPosition")}
+          >
+            {WATERMARK_POSITIONS.map((position) => {
+              const { icon: Icon, labelKey } = POSITION_OPTIONS[position];
+              return (
+                <ToggleGroupItem key={position} value={position} aria-label={t(labelKey)}>
+                  <Icon className="w-4 h-4" />
+                </ToggleGroupItem>
+              );
+            })}
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>{t("watermarkOpacity")}</Label>
+            <span className="text-xs text-muted-foreground">{Math.round(value.opacity * 100)}%</span>
+          </div>
+          <Slider
+            value={[value.opacity * 100]}
+            onValueChange={([opacity]) => update({ opacity: opacity / 100 })}
+            min={5}
+            max={100}
+            step={1}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("watermarkSize")}</Label>
+          <Slider
+            value={[((value.size - minSize) / (maxSize - minSize)) * SLIDER_STEPS]}
+            onValueChange={([step]) => update({ size: minSize + (step / SLIDER_STEPS) * (maxSize - minSize) })}
+            min={0}
+            max={SLIDER_STEPS}
+            step={1}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">{t("watermarkHint")}</p>
+
+        <input
+          ref={logoInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file?.type.startsWith('image/')) handleLogo(file);
+            e.target.value = '';
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default WatermarkPanel;
@@ -0,0 +1,25 @@
+// gifenc ships without type declarations; these cover the parts the animated export uses
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface GifFrameOptions {
+    palette?: Palette;
+    /** Frame duration in milliseconds. */
+    delay?: number;
+    /** -1 plays once, 0 loops forever, a positive number loops that many times. */
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    dispose?: number;
+  }
+
+  export interface GifEncoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: GifFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { initialCapacity?: number; auto?: boolean }): GifEncoder;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: { format?: string }): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: string): Uint8Array;
+}
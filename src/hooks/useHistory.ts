@@ -0,0 +1,96 @@
+import { useCallback, useState } from 'react';
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Key of the last change, used to merge rapid edits of the same kind into one entry. */
+  lastKey: string | null;
+  lastTime: number;
+}
+
+interface UseHistoryOptions {
+  limit?: number;
+  /** Changes sharing a coalesce key within this many milliseconds become a single undo step. */
+  coalesceWindow?: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_COALESCE_WINDOW = 1000;
+
+/**
+ * Undoable state. Every `set` pushes the previous value onto the undo stack and
+ * clears the redo stack; entries beyond `limit` are dropped from the oldest end.
+ */
+export const useHistory = <T>(initial: T | (() => T), options: UseHistoryOptions = {}) => {
+  const { limit = DEFAULT_LIMIT, coalesceWindow = DEFAULT_COALESCE_WINDOW } = options;
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastTime: 0,
+  }));
+
+  const set = useCallback((updater: (state: T) => T, coalesceKey?: string) => {
+    setHistory(prev => {
+      const next = updater(prev.present);
+      if (next === prev.present) return prev;
+
+      const now = Date.now();
+      const coalesce = coalesceKey !== undefined
+        && coalesceKey === prev.lastKey
+        && now - prev.lastTime < coalesceWindow;
+
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-limit),
+        present: next,
+        future: [],
+        lastKey: coalesceKey ?? null,
+        lastTime: now,
+      };
+    });
+  }, [limit, coalesceWindow]);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastKey: null,
+        lastTime: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastKey: null,
+        lastTime: 0,
+      };
+    });
+  }, []);
+
+  /** Replaces the state and forgets all undo/redo steps. */
+  const reset = useCallback((state: T) => {
+    setHistory({ past: [], present: state, future: [], lastKey: null, lastTime: 0 });
+  }, []);
+
+  return {
+    state: history.present,
+    history,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -18,29 +18,260 @@ const translations = {
     uploadImages: "上传图片",
     downloadGrid: "下载九宫格",
     resetGrid: "重置网格",
+    undo: "撤销",
+    redo: "重做",
+    exportSlots: "逐张导出",
+    exportSlotsSize: "单张尺寸（打包为 ZIP）",
+    
+    // Modes
+    modeCombine: "拼接九宫格",
+    modeSplit: "切图发布",
     
     // Upload Zone
     dragHere: "拖拽图片到这里",
-    orClick: "或点击上方\"上传图片\"按钮选择文件",
-    supportedFormats: "支持 JPG、PNG、GIF 格式，最多上传 9 张图片",
+    orClick: "或点击上方\"上传图片\"按钮选择文件，也可以直接粘贴（Ctrl/⌘+V）",
+    supportedFormats: "支持 JPG、PNG、GIF、HEIC 格式，每个格子放一张图片；视频可截取画面",
     
     // Grid
     position: "位置",
+    gridSize: "网格尺寸",
+    rows: "行",
+    columns: "列",
+    layoutTemplates: "拼图模板",
+    layoutHero: "大图 + 五小图",
+    layoutHeroCenter: "中心大图",
+    layoutMagazine: "杂志分栏",
+    layoutBanner: "横幅 + 三图",
+    layoutMosaic: "错落拼贴",
+    layoutStrip: "不对称长条",
+    myTemplates: "我的模板",
+    canvasAspect: "画布比例",
+    canvasFitLayout: "跟随布局",
+    canvasSquare: "1:1 正方形",
+    canvasPortrait: "4:5 Instagram 竖图",
+    canvasXiaohongshu: "3:4 小红书",
+    canvasStory: "9:16 快拍",
+    canvasBanner: "16:9 横幅",
+    canvasCustom: "自定义",
+    canvasCustomWidth: "宽度比例",
+    canvasCustomHeight: "高度比例",
+    styleTitle: "样式",
+    styleGap: "间距",
+    stylePadding: "外边距",
+    styleRadius: "圆角",
+    styleBorder: "边框",
+    styleBorderColor: "边框颜色",
+    styleShadow: "阴影",
+    styleBackground: "背景",
+    styleSolid: "纯色",
+    styleGradient: "渐变",
+    styleGradientFrom: "起始颜色",
+    styleGradientTo: "结束颜色",
+    styleGradientAngle: "渐变角度",
+    styleImage: "图片",
+    styleImageReplace: "更换背景图",
+    adjustPhoto: "调整这张照片",
+    adjustAll: "统一调色",
+    adjustReset: "还原",
+    adjustBrightness: "亮度",
+    adjustContrast: "对比度",
+    adjustSaturation: "饱和度",
+    adjustWarmth: "色温",
+    adjustBlur: "模糊",
+    adjustGrayscale: "黑白",
+    adjustSepia: "复古褐色",
+    presetOriginal: "原图",
+    presetVivid: "鲜艳",
+    presetWarm: "暖调",
+    presetCool: "冷调",
+    presetFade: "褪色",
+    presetMono: "黑白",
+    presetVintage: "复古",
+    textAdd: "添加文字",
+    textAddCaption: "为此格添加文字",
+    textSettings: "文字设置",
+    textPlacement: "文字位置",
+    textWholeCanvas: "整张画布",
+    textDelete: "删除",
+    textDone: "完成",
+    textFont: "字体",
+    textBold: "加粗",
+    textAlignLeft: "左对齐",
+    textAlignCenter: "居中",
+    textAlignRight: "右对齐",
+    textColor: "文字颜色",
+    textSize: "字号",
+    textStroke: "描边",
+    textStrokeColor: "描边颜色",
+    textShadow: "阴影",
+    textEditHint: "拖动移动，双击编辑文字",
+    fontSans: "黑体 Sans",
+    fontSerif: "宋体 Serif",
+    fontKai: "楷体 Kai",
+    fontMono: "等宽 Mono",
+    tileTitle: "色块与文字卡",
+    tileText: "文字卡",
+    stickers: "贴纸",
+    stickerEmoji: "表情",
+    stickerBundled: "内置贴纸",
+    stickerUpload: "上传自己的 PNG",
+    stickerHint: "拖动移动，拖动圆点缩放和旋转，贴纸可以跨越格子",
+    stickerRotate: "旋转（按住 Shift 每次 15°）",
+    stickerScale: "缩放",
+    stickerForward: "上移一层",
+    stickerBackward: "下移一层",
+    stickerDelete: "删除贴纸",
+    watermark: "水印",
+    watermarkEnabled: "导出时添加水印",
+    watermarkText: "文字",
+    watermarkTextPlaceholder: "例如 © 你的名字",
+    watermarkLogo: "Logo",
+    watermarkLogoUpload: "上传 Logo",
+    watermarkLogoReplace: "更换 Logo",
+    watermarkTiled: "平铺满图",
+    watermarkPosition: "位置",
+    watermarkTopLeft: "左上",
+    watermarkTopRight: "右上",
+    watermarkCenter: "居中",
+    watermarkBottomLeft: "左下",
+    watermarkBottomRight: "右下",
+    watermarkOpacity: "不透明度",
+    watermarkSize: "大小",
+    watermarkHint: "水印设置保存在此浏览器中，会自动应用到拼图和单张照片的每次导出。",
+    watermarkSaveError: "水印设置未能保存",
+    templateSaveError: "模板未能保存",
+    templateSaveErrorDesc: "浏览器存储空间不足或不可用，模板只在本次访问中有效",
+    watermarkSaveErrorDesc: "浏览器存储空间不足，请换用更小的标志图片；本次导出仍会使用当前水印",
+    photoInfo: "照片信息",
+    photoInfoName: "文件名",
+    photoInfoFileSize: "文件大小",
+    photoInfoDimensions: "尺寸",
+    photoInfoTakenAt: "拍摄时间",
+    photoInfoCamera: "相机",
+    photoInfoUnknown: "未知",
+    templateNew: "新建模板",
+    templateEdit: "编辑模板",
+    templateDelete: "删除模板",
+    templateEditorDescription: "选中一个格子后拆分，选中两个相邻格子后合并，拖动格子之间的分隔线调整大小",
+    templateEditorHint: "点击格子选中，最多同时选中两个",
+    templateName: "模板名称",
+    templateSplitColumns: "左右拆分",
+    templateSplitRows: "上下拆分",
+    templateMerge: "合并",
+    templateClear: "清空",
+    templateSave: "保存模板",
+    templateImport: "导入",
+    templateExport: "导出",
+    templateImportSuccess: "导入成功",
+    templateImportSuccessDesc: "个模板已导入",
+    templateImportError: "导入失败",
+    templateImportErrorDesc: "文件不是有效的模板文件",
+    page: "页面",
+    pagePrevious: "上一页",
+    pageNext: "下一页",
+    pageAdd: "新建页面",
+    pageDelete: "删除本页",
+    trayTitle: "待选区",
+    trayUnplaced: "张未放入网格",
+    trayNotInGrid: "未放入网格",
+    trayEmpty: "导入的所有图片都会出现在这里，把格子里的图片拖到这里即可移出网格",
+    trayRemove: "删除图片",
+    cropHint: "拖动图片调整位置，滚轮缩放，按住 Shift 滚动可旋转，双击复位",
+    rotate: "旋转 90°",
+    resetCrop: "重置裁剪",
+    rearrangeMode: "移动方式",
+    rearrangeSwap: "交换",
+    rearrangeInsert: "插入",
+    moveHandle: "拖动或点击以移动图片",
+    moveHere: "移动到位置",
+    moveHint: "拖动左上角的把手或待选区的图片来移动；也可先点选图片再点目标格子",
+    moveActiveHint: "点击目标格子放下图片，方向键逐格移动，Esc 取消",
+    
+    // Splitter
+    splitUpload: "选择大图",
+    splitDownload: "下载切图",
+    splitDragHere: "拖拽一张全景图或海报到这里",
+    splitDescription: "自动切成 3 列的拼图，发布后在主页或朋友圈拼成一整张",
+    splitRows: "行数",
+    splitTileAspect: "切片比例",
+    splitOrder: "发布顺序",
+    splitOrderInstagram: "Instagram（倒序发布）",
+    splitOrderReading: "朋友圈（正序上传）",
+    splitGutter: "间隙补偿",
+    splitOrderHint: "角标数字即发布顺序，文件按同样顺序编号",
+    splitNoImageDesc: "请先选择一张要切分的图片",
+    splitDownloadSuccessDesc: "切图已按发布顺序保存",
     
     // Toast Messages
     fileFormatError: "文件格式错误",
-    fileFormatErrorDesc: "请上传图片文件（JPG, PNG, GIF等）",
-    gridFull: "网格已满",
-    gridFullDesc: "请先删除一些图片或重置网格",
+    fileFormatErrorDesc: "请上传图片文件（JPG, PNG, GIF, HEIC等）",
+    heicConverting: "正在转换 HEIC 照片",
+    heicFailed: "HEIC 转换失败",
+    heicFailedDesc: "张 HEIC 照片无法解码，已跳过",
+    folderOrder: "文件夹导入顺序",
+    folderOrderName: "文件名",
+    folderOrderDate: "拍摄时间",
+    folderReadError: "无法读取文件夹",
+    folderReadErrorDesc: "请重试，或打开文件夹后选择其中的图片",
+    importSkipped: "跳过非图片文件",
+    videoFramesTitle: "从视频截取画面",
+    videoFramesScrub: "视频进度",
+    videoFramesCapture: "截取当前画面",
+    videoFramesAutoCount: "均匀截取",
+    videoFramesAutoPick: "自动截取",
+    videoFramesEmpty: "拖动进度条找到想要的画面后截取，或自动均匀截取多张。",
+    videoFramesRemove: "移除画面",
+    videoFramesAdd: "添加到拼图",
+    videoFramesError: "此浏览器无法播放这个视频。",
+    videoFramesCaptureError: "截取画面失败",
+    videoFramesCaptureErrorDesc: "无法读取这一位置的画面，请换个位置再试",
+    exportStill: "静态图片",
+    exportAnimated: "动图",
+    exportFrameRate: "帧率",
+    exportLoop: "循环播放",
+    exportAnimatedHint: "动图最长 10 秒，长边最多 1080 像素",
+    exportAnimatedError: "动图导出失败",
+    exportAnimatedErrorDesc: "此浏览器可能无法解码动图或编码所选格式，请换用 GIF 或其他浏览器",
     uploadSuccess: "图片上传成功",
     uploadSuccessDesc: "已添加",
     uploadSuccessDesc2: "张图片",
+    uploadNewPagesDesc: "个新页面已自动创建",
     gridReset: "网格已重置",
-    gridResetDesc: "所有图片已清除",
+    gridResetDesc: "所有图片已清除，可按 Ctrl/⌘+Z 撤销",
     noImages: "没有图片",
     noImagesDesc: "请先上传一些图片",
     downloadSuccess: "下载成功",
     downloadSuccessDesc: "九宫格图片已保存到您的设备",
+    downloadError: "导出失败",
+    downloadErrorDesc: "图片未能生成，请缩小尺寸或换一种格式后重试",
+    exportSlotsSuccessDesc: "张图片已按发布顺序打包保存",
+    exportAllPages: "所有页面",
+    exportAllComposites: "每页一张拼图（ZIP）",
+    exportAllSlots: "每页的单张图片（ZIP，按页分文件夹）",
+    exportPagesSuccessDesc: "个页面已打包保存",
+    
+    // Export Dialog
+    exportTitle: "导出设置",
+    exportDescription: "选择输出尺寸、格式和画质，格子和间距会按比例缩放",
+    exportSize: "输出尺寸（长边像素）",
+    exportCustom: "自定义",
+    exportFormat: "格式",
+    exportQuality: "画质",
+    exportEstimate: "预计大小",
+    cancel: "取消",
+    
+    // Saved Session
+    restoreTitle: "恢复上次的编辑？",
+    restoreDescription: "发现本浏览器中保存的网格：",
+    restoreConfirm: "恢复",
+    restoreDiscard: "重新开始",
+    storageSaved: "已自动保存在本浏览器",
+    storageIdle: "编辑内容会自动保存在本浏览器",
+    storageQuotaExceeded: "浏览器存储空间不足，当前网格未能保存",
+    storageUnavailable: "此浏览器不支持本地保存",
+    storageClear: "清除保存的数据",
+    storageCleared: "已清除",
+    storageClearedDesc: "本浏览器中保存的网格已删除",
     
     // SEO
     metaDescription: "免费在线九宫格照片制作工具，轻松制作朋友圈、Instagram风格的图片拼接。支持拖拽上传，一键生成时尚九宫格图片布局。",
@@ -55,29 +286,260 @@ const translations = {
     uploadImages: "Upload Images",
     downloadGrid: "Download Grid",
     resetGrid: "Reset Grid",
+    undo: "Undo",
+    redo: "Redo",
+    exportSlots: "Export Each Photo",
+    exportSlotsSize: "Photo size (bundled as ZIP)",
+    
+    // Modes
+    modeCombine: "Combine Photos",
+    modeSplit: "Split a Photo",
     
     // Upload Zone
     dragHere: "Drag images here",
-    orClick: "or click the \"Upload Images\" button above to select files",
-    supportedFormats: "Supports JPG, PNG, GIF formats, up to 9 images",
+    orClick: "or click the \"Upload Images\" button above to select files, or paste with Ctrl/⌘+V",
+    supportedFormats: "Supports JPG, PNG, GIF, HEIC formats, one image per grid cell; grab frames from videos",
     
     // Grid
     position: "Position",
+    gridSize: "Grid size",
+    rows: "rows",
+    columns: "cols",
+    layoutTemplates: "Collage templates",
+    layoutHero: "Hero with five small photos",
+    layoutHeroCenter: "Centered hero",
+    layoutMagazine: "Magazine split",
+    layoutBanner: "Banner with three below",
+    layoutMosaic: "Staggered mosaic",
+    layoutStrip: "Asymmetric strip",
+    myTemplates: "My templates",
+    canvasAspect: "Canvas",
+    canvasFitLayout: "Fit layout",
+    canvasSquare: "1:1 Square",
+    canvasPortrait: "4:5 Instagram portrait",
+    canvasXiaohongshu: "3:4 Xiaohongshu",
+    canvasStory: "9:16 Story",
+    canvasBanner: "16:9 Banner",
+    canvasCustom: "Custom",
+    canvasCustomWidth: "Width ratio",
+    canvasCustomHeight: "Height ratio",
+    styleTitle: "Style",
+    styleGap: "Gap",
+    stylePadding: "Padding",
+    styleRadius: "Corner radius",
+    styleBorder: "Border",
+    styleBorderColor: "Border color",
+    styleShadow: "Shadow",
+    styleBackground: "Background",
+    styleSolid: "Solid",
+    styleGradient: "Gradient",
+    styleGradientFrom: "Start color",
+    styleGradientTo: "End color",
+    styleGradientAngle: "Gradient angle",
+    styleImage: "Image",
+    styleImageReplace: "Replace background image",
+    adjustPhoto: "Adjust this photo",
+    adjustAll: "Adjust all photos",
+    adjustReset: "Reset",
+    adjustBrightness: "Brightness",
+    adjustContrast: "Contrast",
+    adjustSaturation: "Saturation",
+    adjustWarmth: "Warmth",
+    adjustBlur: "Blur",
+    adjustGrayscale: "Grayscale",
+    adjustSepia: "Sepia",
+    presetOriginal: "Original",
+    presetVivid: "Vivid",
+    presetWarm: "Warm",
+    presetCool: "Cool",
+    presetFade: "Faded",
+    presetMono: "Mono",
+    presetVintage: "Vintage",
+    textAdd: "Add text",
+    textAddCaption: "Add text to this cell",
+    textSettings: "Text settings",
+    textPlacement: "Text placement",
+    textWholeCanvas: "Whole canvas",
+    textDelete: "Delete",
+    textDone: "Done",
+    textFont: "Font",
+    textBold: "Bold",
+    textAlignLeft: "Align left",
+    textAlignCenter: "Center",
+    textAlignRight: "Align right",
+    textColor: "Text color",
+    textSize: "Size",
+    textStroke: "Outline",
+    textStrokeColor: "Outline color",
+    textShadow: "Shadow",
+    textEditHint: "Drag to move, double-click to edit",
+    fontSans: "黑体 Sans",
+    fontSerif: "宋体 Serif",
+    fontKai: "楷体 Kai",
+    fontMono: "等宽 Mono",
+    tileTitle: "Color & text tile",
+    tileText: "Text card",
+    stickers: "Stickers",
+    stickerEmoji: "Emoji",
+    stickerBundled: "Stickers",
+    stickerUpload: "Upload your own PNG",
+    stickerHint: "Drag to move, drag the dots to scale and rotate. Stickers can cross cells.",
+    stickerRotate: "Rotate (hold Shift for 15° steps)",
+    stickerScale: "Scale",
+    stickerForward: "Bring forward",
+    stickerBackward: "Send backward",
+    stickerDelete: "Delete sticker",
+    watermark: "Watermark",
+    watermarkEnabled: "Stamp exports",
+    watermarkText: "Text",
+    watermarkTextPlaceholder: "e.g. © Your Name",
+    watermarkLogo: "Logo",
+    watermarkLogoUpload: "Upload logo",
+    watermarkLogoReplace: "Replace logo",
+    watermarkTiled: "Repeat across image",
+    watermarkPosition: "Position",
+    watermarkTopLeft: "Top left",
+    watermarkTopRight: "Top right",
+    watermarkCenter: "Center",
+    watermarkBottomLeft: "Bottom left",
+    watermarkBottomRight: "Bottom right",
+    watermarkOpacity: "Opacity",
+    watermarkSize: "Size",
+    watermarkHint: "Saved in this browser and applied automatically to every grid and photo export.",
+    watermarkSaveError: "Watermark settings were not saved",
+    templateSaveError: "Templates were not saved",
+    templateSaveErrorDesc: "Browser storage is full or unavailable; your templates only last for this visit.",
+    watermarkSaveErrorDesc: "Browser storage is full; try a smaller logo. Exports in this visit still use the current watermark.",
+    photoInfo: "Photo details",
+    photoInfoName: "File name",
+    photoInfoFileSize: "File size",
+    photoInfoDimensions: "Dimensions",
+    photoInfoTakenAt: "Taken",
+    photoInfoCamera: "Camera",
+    photoInfoUnknown: "Unknown",
+    templateNew: "New template",
+    templateEdit: "Edit template",
+    templateDelete: "Delete template",
+    templateEditorDescription: "Select a cell to split it, select two neighbouring cells to merge them, and drag the lines between cells to resize",
+    templateEditorHint: "Click cells to select them, up to two at a time",
+    templateName: "Template name",
+    templateSplitColumns: "Split left/right",
+    templateSplitRows: "Split top/bottom",
+    templateMerge: "Merge",
+    templateClear: "Clear",
+    templateSave: "Save template",
+    templateImport: "Import",
+    templateExport: "Export",
+    templateImportSuccess: "Templates imported",
+    templateImportSuccessDesc: "templates imported",
+    templateImportError: "Import failed",
+    templateImportErrorDesc: "The file is not a valid template file",
+    page: "Page",
+    pagePrevious: "Previous page",
+    pageNext: "Next page",
+    pageAdd: "Add page",
+    pageDelete: "Delete page",
+    trayTitle: "Tray",
+    trayUnplaced: "not in the grid",
+    trayNotInGrid: "not in the grid",
+    trayEmpty: "Every imported image shows up here; drag a photo from the grid onto the tray to take it out",
+    trayRemove: "Delete image",
+    cropHint: "Drag a photo to reposition it, scroll to zoom, Shift + scroll to rotate, double-click to reset",
+    rotate: "Rotate 90°",
+    resetCrop: "Reset crop",
+    rearrangeMode: "Rearrange",
+    rearrangeSwap: "Swap",
+    rearrangeInsert: "Insert",
+    moveHandle: "Drag or click to move this photo",
+    moveHere: "Move to position",
+    moveHint: "Drag a cell's top-left handle or a tray image to move it, or tap it and then tap the target cell",
+    moveActiveHint: "Tap a cell to drop the photo, use arrow keys to move it one cell, Esc to cancel",
+    
+    // Splitter
+    splitUpload: "Choose Photo",
+    splitDownload: "Download Tiles",
+    splitDragHere: "Drag a panorama or poster here",
+    splitDescription: "It is sliced into a 3-column puzzle that lines up on your profile or in Moments",
+    splitRows: "Rows",
+    splitTileAspect: "Tile aspect",
+    splitOrder: "Posting order",
+    splitOrderInstagram: "Instagram (last tile first)",
+    splitOrderReading: "Moments (reading order)",
+    splitGutter: "Gutter compensation",
+    splitOrderHint: "Badges show the posting order; files are numbered the same way",
+    splitNoImageDesc: "Please choose a photo to split first",
+    splitDownloadSuccessDesc: "Tiles have been saved in posting order",
     
     // Toast Messages
     fileFormatError: "File format error",
-    fileFormatErrorDesc: "Please upload image files (JPG, PNG, GIF, etc.)",
-    gridFull: "Grid is full",
-    gridFullDesc: "Please delete some images or reset the grid first",
+    fileFormatErrorDesc: "Please upload image files (JPG, PNG, GIF, HEIC, etc.)",
+    heicConverting: "Converting HEIC photos",
+    heicFailed: "HEIC conversion failed",
+    heicFailedDesc: "HEIC photos could not be decoded and were skipped",
+    folderOrder: "Folder import order",
+    folderOrderName: "File name",
+    folderOrderDate: "Capture date",
+    folderReadError: "Could not read the folder",
+    folderReadErrorDesc: "Try again, or open the folder and select its images",
+    importSkipped: "skipped non-image files",
+    videoFramesTitle: "Grab frames from video",
+    videoFramesScrub: "Video position",
+    videoFramesCapture: "Capture this frame",
+    videoFramesAutoCount: "Evenly spaced",
+    videoFramesAutoPick: "Auto-pick",
+    videoFramesEmpty: "Scrub to a moment and capture it, or auto-pick several evenly spaced frames.",
+    videoFramesRemove: "Remove frame",
+    videoFramesAdd: "Add to grid",
+    videoFramesError: "This browser cannot play this video.",
+    videoFramesCaptureError: "Could not capture the frame",
+    videoFramesCaptureErrorDesc: "The video could not be read at this point; try another position",
+    exportStill: "Still image",
+    exportAnimated: "Animation",
+    exportFrameRate: "Frame rate",
+    exportLoop: "Loop",
+    exportAnimatedHint: "animations run up to 10 s, at most 1080 px on the long edge",
+    exportAnimatedError: "Animated export failed",
+    exportAnimatedErrorDesc: "This browser may not decode animated images or encode the chosen format; try GIF or another browser",
     uploadSuccess: "Images uploaded successfully",
     uploadSuccessDesc: "Added",
     uploadSuccessDesc2: "images",
+    uploadNewPagesDesc: "new pages were created for the rest",
     gridReset: "Grid reset",
-    gridResetDesc: "All images have been cleared",
+    gridResetDesc: "All images have been cleared. Press Ctrl/⌘+Z to undo",
     noImages: "No images",
     noImagesDesc: "Please upload some images first",
     downloadSuccess: "Download successful",
     downloadSuccessDesc: "Grid image has been saved to your device",
+    downloadError: "Export failed",
+    downloadErrorDesc: "The images could not be rendered; try a smaller size or another format",
+    exportSlotsSuccessDesc: "images have been zipped in posting order",
+    exportAllPages: "All pages",
+    exportAllComposites: "One composite per page (ZIP)",
+    exportAllSlots: "Each page's photos (ZIP, a folder per page)",
+    exportPagesSuccessDesc: "pages have been zipped",
+    
+    // Export Dialog
+    exportTitle: "Export settings",
+    exportDescription: "Choose output size, format and quality; cells and gaps scale to match",
+    exportSize: "Output size (long edge, px)",
+    exportCustom: "Custom",
+    exportFormat: "Format",
+    exportQuality: "Quality",
+    exportEstimate: "Estimated size",
+    cancel: "Cancel",
+    
+    // Saved Session
+    restoreTitle: "Restore previous session?",
+    restoreDescription: "A grid saved in this browser was found:",
+    restoreConfirm: "Restore",
+    restoreDiscard: "Start fresh",
+    storageSaved: "Saved automatically in this browser",
+    storageIdle: "Your edits are saved automatically in this browser",
+    storageQuotaExceeded: "Not enough browser storage; the current grid was not saved",
+    storageUnavailable: "Saving is not available in this browser",
+    storageClear: "Clear saved data",
+    storageCleared: "Cleared",
+    storageClearedDesc: "The grid saved in this browser has been deleted",
     
     // SEO
     metaDescription: "Free online photo grid maker tool. Easily create WeChat Moments and Instagram-style photo collages. Supports drag & drop upload and one-click stylish grid generation.",
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  clearSession,
+  getStorageEstimate,
+  hasSessionContent,
+  loadSession,
+  saveSession,
+  SESSION_VERSION,
+  sessionBytes,
+  type SavedSession,
+} from '@/lib/sessionStore';
+
+export type SessionSnapshot = Omit<SavedSession, 'version' | 'savedAt'>;
+
+export type SaveStatus = 'idle' | 'saved' | 'quotaExceeded' | 'unavailable';
+
+const SAVE_DELAY = 1000;
+
+/**
+ * Autosaves the working grid to IndexedDB and offers the previous session on mount.
+ * Nothing is written until the restore prompt has been answered, so an empty grid
+ * never overwrites a session the user may still want back.
+ */
+export const useSavedSession = (snapshot: SessionSnapshot, onRestore: (session: SavedSession) => void) => {
+  const [pendingSession, setPendingSession] = useState<SavedSession | null>(null);
+  const [ready, setReady] = useState(false);
+  const [status, setStatus] = useState<SaveStatus>('idle');
+  const [savedBytes, setSavedBytes] = useState(0);
+  const savedBytesRef = useRef(0);
+
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session && hasSessionContent(session)) {
+          setPendingSession(session);
+        } else {
+          setReady(true);
+        }
+      })
+      .catch(() => {
+        setStatus('unavailable');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const timer = window.setTimeout(async () => {
+      const bytes = sessionBytes(snapshot);
+      try {
+        const estimate = await getStorageEstimate();
+        // The previous save is overwritten, so its bytes count as free space
+        if (estimate && bytes > estimate.quota - estimate.usage + savedBytesRef.current) {
+          setStatus('quotaExceeded');
+          return;
+        }
+
+        await saveSession({ ...snapshot, version: SESSION_VERSION, savedAt: Date.now() });
+        savedBytesRef.current = bytes;
+        setSavedBytes(bytes);
+        setStatus('saved');
+      } catch (error) {
+        setStatus(error instanceof DOMException && error.name === 'QuotaExceededError' ? 'quotaExceeded' : 'unavailable');
+      }
+    }, SAVE_DELAY);
+
+    return () => window.clearTimeout(timer);
+  }, [ready, snapshot]);
+
+  const restore = useCallback(() => {
+    if (pendingSession) onRestore(pendingSession);
+    setPendingSession(null);
+    setReady(true);
+  }, [pendingSession, onRestore]);
+
+  const discard = useCallback(() => {
+    setPendingSession(null);
+    setReady(true);
+  }, []);
+
+  const clear = useCallback(async () => {
+    await clearSession();
+    savedBytesRef.current = 0;
+    setSavedBytes(0);
+    setStatus('idle');
+  }, []);
+
+  return { pendingSession, restore, discard, clear, status, savedBytes };
+};
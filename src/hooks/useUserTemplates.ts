@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { UserTemplate } from '@/lib/layouts';
+import { loadUserTemplates, saveUserTemplates } from '@/lib/templateStore';
+
+/**
+ * The user's own layout templates, kept in localStorage. Saving a template with a known id replaces it.
+ * Failing saves show one toast, and another only after a save has gone through again.
+ */
+export const useUserTemplates = () => {
+  const [templates, setTemplates] = useState<UserTemplate[]>(loadUserTemplates);
+  const saveFailedRef = useRef(false);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    try {
+      saveUserTemplates(templates);
+      saveFailedRef.current = false;
+    } catch {
+      if (saveFailedRef.current) return;
+      saveFailedRef.current = true;
+      toast({
+        title: t("templateSaveError"),
+        description: t("templateSaveErrorDesc"),
+        variant: "destructive"
+      });
+    }
+  }, [templates, toast, t]);
+
+  const saveTemplates = useCallback((incoming: UserTemplate[]) => {
+    setTemplates(prev => [
+      ...prev.map(template => incoming.find(item => item.id === template.id) ?? template),
+      ...incoming.filter(item => !prev.some(template => template.id === item.id)),
+    ]);
+  }, []);
+
+  const removeTemplate = useCallback((id: string) => {
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  }, []);
+
+  return { templates, saveTemplates, removeTemplate };
+};
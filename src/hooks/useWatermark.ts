@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { Watermark } from '@/lib/watermark';
+import { loadWatermark, saveWatermark } from '@/lib/watermarkStore';
+
+/**
+ * The watermark applied to every export, kept in localStorage as the default for later visits.
+ * A failed save is reported once, not on every change while storage stays full.
+ */
+export const useWatermark = () => {
+  const [watermark, setWatermark] = useState<Watermark>(loadWatermark);
+  const saveFailedRef = useRef(false);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    try {
+      saveWatermark(watermark);
+      saveFailedRef.current = false;
+    } catch {
+      if (saveFailedRef.current) return;
+      saveFailedRef.current = true;
+      toast({
+        title: t("watermarkSaveError"),
+        description: t("watermarkSaveErrorDesc"),
+        variant: "destructive"
+      });
+    }
+  }, [watermark, toast, t]);
+
+  return { watermark, setWatermark };
+};
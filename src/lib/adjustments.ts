@@ -0,0 +1,95 @@
+/**
+ * Non-destructive photo adjustments. Apart from `warmth`, the values map one to one
+ * onto CSS filter functions, so the preview and the canvas `filter` share one string.
+ */
+export interface SlotAdjustments {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  /** -1 (cool) to 1 (warm); drawn as a soft-light tint because CSS has no warmth filter. */
+  warmth: number;
+  /** Blur radius as a fraction of the canvas long edge, like the grid style lengths. */
+  blur: number;
+  grayscale: number;
+  sepia: number;
+}
+
+export type AdjustmentKey = keyof SlotAdjustments;
+
+export const DEFAULT_ADJUSTMENTS: SlotAdjustments = {
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  warmth: 0,
+  blur: 0,
+  grayscale: 0,
+  sepia: 0,
+};
+
+export const ADJUSTMENT_RANGES: Record<AdjustmentKey, [number, number]> = {
+  brightness: [0.5, 1.5],
+  contrast: [0.5, 1.5],
+  saturation: [0, 2],
+  warmth: [-1, 1],
+  blur: [0, 0.01],
+  grayscale: [0, 1],
+  sepia: [0, 1],
+};
+
+export interface AdjustmentPreset {
+  id: string;
+  /** Translation key of the preset name. */
+  nameKey: string;
+  adjustments: SlotAdjustments;
+}
+
+export const ADJUSTMENT_PRESETS: AdjustmentPreset[] = [
+  { id: 'original', nameKey: 'presetOriginal', adjustments: DEFAULT_ADJUSTMENTS },
+  { id: 'vivid', nameKey: 'presetVivid', adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: 1.1, saturation: 1.35 } },
+  { id: 'warm', nameKey: 'presetWarm', adjustments: { ...DEFAULT_ADJUSTMENTS, warmth: 0.5, saturation: 1.1 } },
+  { id: 'cool', nameKey: 'presetCool', adjustments: { ...DEFAULT_ADJUSTMENTS, warmth: -0.5, brightness: 1.05 } },
+  {
+    id: 'fade',
+    nameKey: 'presetFade',
+    adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 1.08, contrast: 0.85, saturation: 0.8 },
+  },
+  { id: 'mono', nameKey: 'presetMono', adjustments: { ...DEFAULT_ADJUSTMENTS, grayscale: 1, contrast: 1.1 } },
+  {
+    id: 'vintage',
+    nameKey: 'presetVintage',
+    adjustments: { ...DEFAULT_ADJUSTMENTS, sepia: 0.45, contrast: 0.95, brightness: 1.05, warmth: 0.2 },
+  },
+];
+
+export const isDefaultAdjustments = (adjustments: SlotAdjustments) =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as AdjustmentKey[]).every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+
+/** CSS/canvas filter for the adjustments, with the blur radius given as a CSS length. */
+export const adjustmentFilter = (adjustments: SlotAdjustments, blur: string) => {
+  const { brightness, contrast, saturation, grayscale, sepia } = adjustments;
+  const parts = [
+    brightness !== 1 && `brightness(${brightness})`,
+    contrast !== 1 && `contrast(${contrast})`,
+    saturation !== 1 && `saturate(${saturation})`,
+    grayscale > 0 && `grayscale(${grayscale})`,
+    sepia > 0 && `sepia(${sepia})`,
+    adjustments.blur > 0 && `blur(${blur})`,
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+/** Tint laid over the image with soft-light blending, or null when the photo is neutral. */
+export const warmthTint = ({ warmth }: SlotAdjustments) => {
+  if (warmth === 0) return null;
+  const alpha = Math.abs(warmth) * 0.5;
+  return warmth > 0 ? `rgba(255, 140, 0, ${alpha})` : `rgba(0, 110, 255, ${alpha})`;
+};
+
+/**
+ * Combined filter and tints of the grid-wide and per-photo adjustments, applied in
+ * that order. `blurLength` turns a blur fraction into a CSS length.
+ */
+export const combineAdjustments = (layers: SlotAdjustments[], blurLength: (blur: number) => string) => ({
+  filter: layers.map(layer => adjustmentFilter(layer, blurLength(layer.blur))).filter(Boolean).join(' ') || 'none',
+  tints: layers.map(warmthTint).filter((tint): tint is string => tint !== null),
+});
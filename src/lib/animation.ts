@@ -0,0 +1,166 @@
+import type { ImageSlot } from '@/lib/grid';
+import { ANIMATED_IMAGE_TYPES } from '@/lib/photoMetadata';
+import type { Layout } from '@/lib/layouts';
+import type { GridStyle } from '@/lib/gridStyle';
+import {
+  createApngEncoder,
+  createGifEncoder,
+  createWebpEncoder,
+  type AnimationEncoder,
+} from '@/lib/animationEncoders';
+import {
+  canvasSizeForLayout,
+  drawGrid,
+  loadGridImages,
+  loadWatermarkLogo,
+  stampWatermark,
+  type FrameImage,
+  type PageOverlays,
+} from '@/lib/renderGrid';
+import type { Watermark } from '@/lib/watermark';
+
+export type AnimationFormat = 'gif' | 'webp' | 'apng';
+
+export interface AnimationSettings {
+  format: AnimationFormat;
+  /** Frames per second of the exported animation. */
+  fps: number;
+  /** Repeat forever instead of playing once. */
+  loop: boolean;
+}
+
+/** A decoded animated photo; frames are in order and `start` is in milliseconds. */
+interface DecodedAnimation {
+  frames: { image: ImageBitmap; start: number }[];
+  duration: number;
+}
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string }> = {
+  gif: { label: 'GIF', extension: 'gif' },
+  webp: { label: 'WebP', extension: 'webp' },
+  apng: { label: 'APNG', extension: 'png' },
+};
+
+export const ANIMATION_FPS_OPTIONS = [10, 15, 24];
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  format: 'gif',
+  fps: 15,
+  loop: true,
+};
+
+/** Animated files are big and slow to encode, so their long edge and length are capped. */
+export const MAX_ANIMATION_SIZE = 1080;
+const MAX_ANIMATION_DURATION = 10_000;
+
+/** Frames that do not say how long they last show for this long, as browsers do. */
+const DEFAULT_FRAME_DURATION = 100;
+
+/**
+ * Decodes every frame of an animated GIF, WebP or APNG with the browser's image
+ * decoder. Returns null for stills, and where the browser has no image decoder.
+ */
+const decodeAnimation = async (file: File): Promise<DecodedAnimation | null> => {
+  if (typeof ImageDecoder === 'undefined' || !ANIMATED_IMAGE_TYPES.includes(file.type)) return null;
+  if (!(await ImageDecoder.isTypeSupported(file.type))) return null;
+
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    if (!track?.animated || track.frameCount < 2) return null;
+
+    const frames: DecodedAnimation['frames'] = [];
+    let start = 0;
+    for (let frameIndex = 0; frameIndex < track.frameCount && start < MAX_ANIMATION_DURATION; frameIndex++) {
+      const { image } = await decoder.decode({ frameIndex });
+      frames.push({ image: await createImageBitmap(image), start });
+      // Durations are in microseconds
+      start += image.duration ? image.duration / 1000 : DEFAULT_FRAME_DURATION;
+      image.close();
+    }
+    return { frames, duration: start };
+  } finally {
+    decoder.close();
+  }
+};
+
+/** The frame an animation shows `time` milliseconds in, starting over when it ends. */
+const frameAt = ({ frames, duration }: DecodedAnimation, time: number) => {
+  const position = time % duration;
+  let frame = frames[0];
+  for (const candidate of frames) {
+    if (candidate.start > position) break;
+    frame = candidate;
+  }
+  return frame.image;
+};
+
+const createEncoder = ({ format, loop }: AnimationSettings, quality: number): AnimationEncoder => {
+  if (format === 'gif') return createGifEncoder(loop);
+  if (format === 'apng') return createApngEncoder(loop);
+  return createWebpEncoder(loop, quality);
+};
+
+/** Whether any photo on the page was found to be animated when it was imported. */
+export const hasAnimatedSlots = (slots: ImageSlot[]) =>
+  slots.some(slot => slot.content.type === 'image' && slot.content.metadata?.animated);
+
+/**
+ * Renders the composite as an animation: every animated photo plays in its cell on one
+ * shared clock, looping until the longest one ends, while stills, text and stickers stay
+ * put. The long edge is `size` pixels, capped at `MAX_ANIMATION_SIZE`. Throws if no photo
+ * on the page is animated.
+ */
+export const exportAnimatedGrid = async (
+  slots: ImageSlot[],
+  layout: Layout,
+  style: GridStyle,
+  overlays: PageOverlays,
+  size: number,
+  quality: number,
+  settings: AnimationSettings,
+  watermark: Watermark | null,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  // One at a time, since a decoded animation holds every frame in memory
+  const animations: (DecodedAnimation | null)[] = [];
+  try {
+    for (const slot of slots) {
+      animations.push(slot.content.type === 'image' ? await decodeAnimation(slot.content.file) : null);
+    }
+
+    const duration = Math.min(
+      MAX_ANIMATION_DURATION,
+      Math.max(0, ...animations.map(animation => animation?.duration ?? 0))
+    );
+    if (duration === 0) throw new Error('No animated photos to export');
+
+    const options = { layout, ...canvasSizeForLayout(layout, Math.min(size, MAX_ANIMATION_SIZE)), style, ...overlays };
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: settings.format === 'gif' });
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+
+    const images = await loadGridImages(slots, options);
+    const logo = await loadWatermarkLogo(watermark);
+    const encoder = createEncoder(settings, quality);
+    const frameDuration = 1000 / settings.fps;
+    const frameCount = Math.max(1, Math.round(duration / frameDuration));
+
+    for (let index = 0; index < frameCount; index++) {
+      const time = index * frameDuration;
+      const frames: (FrameImage | null)[] = animations.map(animation => (animation ? frameAt(animation, time) : null));
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawGrid(ctx, slots, options, images, frames);
+      stampWatermark(canvas, watermark, logo);
+      await encoder.addFrame(canvas, frameDuration);
+      onProgress?.((index + 1) / frameCount);
+    }
+
+    return encoder.finish();
+  } finally {
+    animations.forEach(animation => animation?.frames.forEach(frame => frame.image.close()));
+  }
+};
@@ -0,0 +1,216 @@
+import { applyPalette, GIFEncoder, quantize } from 'gifenc';
+import { canvasToBlob } from '@/lib/download';
+
+/** Collects frames of one size and encodes them into an animated image. */
+export interface AnimationEncoder {
+  /** `delay` is how long the frame shows, in milliseconds. */
+  addFrame: (canvas: HTMLCanvasElement, delay: number) => Promise<void>;
+  finish: () => Blob;
+}
+
+/** Encodes GIF frames as they come, each with its own 256-color palette. */
+export const createGifEncoder = (loop: boolean): AnimationEncoder => {
+  const gif = GIFEncoder();
+
+  return {
+    addFrame: async (canvas, delay) => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context is not available');
+      const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay, repeat: loop ? 0 : -1 });
+    },
+    finish: () => {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: 'image/gif' });
+    },
+  };
+};
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const PNG_SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Chunks of a PNG file after its signature. */
+const pngChunks = (png: Uint8Array): Chunk[] => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(ascii(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/** Big-endian fields of the given byte widths. */
+const fields = (values: [number, 1 | 2 | 4][]) => {
+  const bytes = new Uint8Array(values.reduce((total, [, size]) => total + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  values.forEach(([value, size]) => {
+    if (size === 1) view.setUint8(offset, value);
+    if (size === 2) view.setUint16(offset, value);
+    if (size === 4) view.setUint32(offset, value);
+    offset += size;
+  });
+  return bytes;
+};
+
+/**
+ * Encodes each frame as a PNG with the canvas and joins them into an APNG: the first
+ * frame's image data stays as IDAT, so viewers without APNG support show it as a still.
+ */
+export const createApngEncoder = (loop: boolean): AnimationEncoder => {
+  const frames: { png: Uint8Array; delay: number }[] = [];
+
+  return {
+    addFrame: async (canvas, delay) => {
+      const blob = await canvasToBlob(canvas, 'image/png');
+      frames.push({ png: new Uint8Array(await blob.arrayBuffer()), delay });
+    },
+    finish: () => {
+      const parts = [PNG_SIGNATURE];
+      let sequence = 0;
+
+      frames.forEach(({ png, delay }, index) => {
+        const chunks = pngChunks(png);
+        const header = chunks.find(chunk => chunk.type === 'IHDR');
+        if (!header) throw new Error('Encoded frame is not a PNG');
+        const width = new DataView(header.data.buffer, header.data.byteOffset).getUint32(0);
+        const height = new DataView(header.data.buffer, header.data.byteOffset).getUint32(4);
+
+        if (index === 0) {
+          parts.push(pngChunk('IHDR', header.data));
+          parts.push(pngChunk('acTL', fields([[frames.length, 4], [loop ? 0 : 1, 4]])));
+        }
+        parts.push(pngChunk('fcTL', fields([
+          [sequence++, 4], [width, 4], [height, 4], [0, 4], [0, 4],
+          [Math.round(delay), 2], [1000, 2], [0, 1], [0, 1],
+        ])));
+        chunks.filter(chunk => chunk.type === 'IDAT').forEach(chunk => {
+          parts.push(index === 0 ? pngChunk('IDAT', chunk.data) : pngChunk('fdAT', concat([fields([[sequence++, 4]]), chunk.data])));
+        });
+      });
+
+      parts.push(pngChunk('IEND', new Uint8Array(0)));
+      return new Blob([concat(parts)], { type: 'image/apng' });
+    },
+  };
+};
+
+/** WebP chunks of a RIFF file; sizes are little-endian and chunks are padded to even lengths. */
+const webpChunks = (webp: Uint8Array): Chunk[] => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 12; offset + 8 <= webp.length;) {
+    const type = String.fromCharCode(...webp.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type, data: webp.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+};
+
+const webpChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(ascii(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const uint24 = (value: number) => Uint8Array.from([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff]);
+
+const uint16le = (value: number) => Uint8Array.from([value & 0xff, (value >> 8) & 0xff]);
+
+/** Flags of the VP8X header: the file is animated, and it may have alpha. */
+const WEBP_ANIMATION_FLAG = 0x02;
+const WEBP_ALPHA_FLAG = 0x10;
+
+/**
+ * Encodes each frame as a still WebP with the canvas and muxes them into an animated
+ * WebP. Throws on browsers that cannot encode WebP, where the canvas falls back to PNG.
+ */
+export const createWebpEncoder = (loop: boolean, quality: number): AnimationEncoder => {
+  const frames: { chunks: Chunk[]; width: number; height: number; delay: number }[] = [];
+
+  return {
+    addFrame: async (canvas, delay) => {
+      const blob = await canvasToBlob(canvas, 'image/webp', quality);
+      if (blob.type !== 'image/webp') throw new Error('This browser cannot encode WebP');
+      // Only the image data and its alpha go into the frame; headers and metadata are dropped
+      const chunks = webpChunks(new Uint8Array(await blob.arrayBuffer()))
+        .filter(chunk => ['ALPH', 'VP8 ', 'VP8L'].includes(chunk.type));
+      frames.push({ chunks, width: canvas.width, height: canvas.height, delay });
+    },
+    finish: () => {
+      const width = Math.max(...frames.map(frame => frame.width));
+      const height = Math.max(...frames.map(frame => frame.height));
+      const hasAlpha = frames.some(frame => frame.chunks.some(chunk => chunk.type !== 'VP8 '));
+
+      const body = concat([
+        ascii('WEBP'),
+        webpChunk('VP8X', concat([
+          Uint8Array.from([WEBP_ANIMATION_FLAG | (hasAlpha ? WEBP_ALPHA_FLAG : 0), 0, 0, 0]),
+          uint24(width - 1),
+          uint24(height - 1),
+        ])),
+        // Background color, unused since every frame covers the canvas, then the loop count
+        webpChunk('ANIM', concat([Uint8Array.from([0, 0, 0, 0]), uint16le(loop ? 0 : 1)])),
+        ...frames.map(frame => webpChunk('ANMF', concat([
+          uint24(0),
+          uint24(0),
+          uint24(frame.width - 1),
+          uint24(frame.height - 1),
+          uint24(Math.round(frame.delay)),
+          // Replace rather than blend, so a frame never shows through the next one
+          Uint8Array.from([0x02]),
+          ...frame.chunks.map(chunk => webpChunk(chunk.type, chunk.data)),
+        ]))),
+      ]);
+
+      const header = concat([ascii('RIFF'), Uint8Array.from([0, 0, 0, 0])]);
+      new DataView(header.buffer).setUint32(4, body.length, true);
+      return new Blob([header, body], { type: 'image/webp' });
+    },
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * Per-slot framing of an image inside its cell. At the default crop the image is
+ * cover-fitted and centered; `x`/`y` move the image center as a fraction of the
+ * cell width/height, `scale` zooms on top of the cover fit and `rotation` is in degrees.
+ */
+export interface SlotCrop {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+}
+
+export const DEFAULT_CROP: SlotCrop = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+export const MIN_CROP_SCALE = 1;
+export const MAX_CROP_SCALE = 5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Keeps the crop inside sensible bounds: the zoom stays within the allowed range
+ * and the offset never pulls the (unrotated) image edge into the cell.
+ */
+export const clampCrop = (crop: SlotCrop, imageAspect: number, cellAspect: number): SlotCrop => {
+  const scale = clamp(crop.scale, MIN_CROP_SCALE, MAX_CROP_SCALE);
+  // Size of the cover-fitted image relative to the cell.
+  const coverWidth = imageAspect > cellAspect ? imageAspect / cellAspect : 1;
+  const coverHeight = imageAspect > cellAspect ? 1 : cellAspect / imageAspect;
+  const maxX = (coverWidth * scale - 1) / 2;
+  const maxY = (coverHeight * scale - 1) / 2;
+
+  return {
+    x: clamp(crop.x, -maxX, maxX),
+    y: clamp(crop.y, -maxY, maxY),
+    scale,
+    rotation: ((crop.rotation % 360) + 360) % 360,
+  };
+};
+
+/** CSS transform for an `object-fit: cover` element that matches `drawImageCover` on the canvas. */
+export const cropTransform = (crop: SlotCrop) =>
+  `translate(${crop.x * 100}%, ${crop.y * 100}%) rotate(${crop.rotation}deg) scale(${crop.scale})`;
+
+export const isDefaultCrop = (crop: SlotCrop) =>
+  crop.x === 0 && crop.y === 0 && crop.scale === 1 && crop.rotation === 0;
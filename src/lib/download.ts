@@ -0,0 +1,51 @@
+import { zip } from 'fflate';
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode canvas'));
+      }
+    }, type, quality);
+  });
+
+/** Frees a canvas's pixels right away; large exports would otherwise keep them until garbage collection. */
+export const releaseCanvas = (canvas: HTMLCanvasElement) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+/** Bundles the entries into a single ZIP. Entries are stored uncompressed since images are already compressed. */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const files: Record<string, [Uint8Array, { level: 0 }]> = {};
+  for (const entry of entries) {
+    files[entry.name] = [new Uint8Array(await entry.blob.arrayBuffer()), { level: 0 }];
+  }
+
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+  return new Blob([data], { type: 'application/zip' });
+};
+
+/** Zero-padded file name for the n-th (1-based) image of a posting sequence, e.g. `03.jpg`. */
+export const sequenceFileName = (index: number, extension: string) =>
+  `${String(index).padStart(2, '0')}.${extension}`;
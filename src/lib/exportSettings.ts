@@ -0,0 +1,38 @@
+export type ExportFormat = 'jpeg' | 'webp' | 'png';
+
+export interface ExportSettings {
+  /** Length of the longer edge of the exported image in pixels. */
+  size: number;
+  format: ExportFormat;
+  /** Encoder quality between 0 and 1; ignored for PNG. */
+  quality: number;
+}
+
+export const EXPORT_SIZE_PRESETS = [1080, 2048, 4096];
+export const MIN_EXPORT_SIZE = 256;
+export const MAX_EXPORT_SIZE = 8192;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  size: 2048,
+  format: 'jpeg',
+  quality: 0.9,
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; extension: string }> = {
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg' },
+  webp: { label: 'WebP', mime: 'image/webp', extension: 'webp' },
+  png: { label: 'PNG', mime: 'image/png', extension: 'png' },
+};
+
+/** Extension for an encoded blob; browsers without WebP encoding silently fall back to PNG. */
+export const extensionForBlob = (blob: Blob) =>
+  Object.values(EXPORT_FORMATS).find(format => format.mime === blob.type)?.extension ?? 'png';
+
+export const clampExportSize = (size: number) =>
+  Math.min(MAX_EXPORT_SIZE, Math.max(MIN_EXPORT_SIZE, Math.round(size) || MIN_EXPORT_SIZE));
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,52 @@
+import type { LibraryImage } from '@/lib/grid';
+
+/** Order of the photos of a dropped folder. */
+export type ImportOrder = 'name' | 'date';
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// A directory reader hands out its entries in batches, and an empty batch means it is done
+const readDirectory = async (entry: FileSystemDirectoryEntry) => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  // Hidden files such as .DS_Store are system clutter, not something the user dropped
+  if (entry.name.startsWith('.')) return [];
+  if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+
+  const children = await readDirectory(entry as FileSystemDirectoryEntry);
+  return (await Promise.all(children.map(collectFiles))).flat();
+};
+
+/**
+ * The entries of a drop, which must be taken while the drop event is being handled;
+ * the browser empties the data transfer once the handler returns.
+ */
+export const droppedEntries = (dataTransfer: DataTransfer) =>
+  Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+/** Every file in the dropped entries, walking folders and their subfolders. */
+export const readDroppedFiles = async (entries: FileSystemEntry[]) => (await Promise.all(entries.map(collectFiles))).flat();
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const captureTime = ({ file, metadata }: LibraryImage) => (metadata?.takenAt ? Date.parse(metadata.takenAt) : file.lastModified);
+
+/**
+ * Sorts imported photos by file name, with numbers in natural order so IMG_2 comes
+ * before IMG_10, or by capture time, falling back to the file date when a photo has none.
+ */
+export const sortImages = (images: LibraryImage[], order: ImportOrder) =>
+  [...images].sort((a, b) =>
+    order === 'name' ? nameCollator.compare(a.file.name, b.file.name) : captureTime(a) - captureTime(b)
+  );
@@ -0,0 +1,225 @@
+import { DEFAULT_ADJUSTMENTS, type SlotAdjustments } from '@/lib/adjustments';
+import { DEFAULT_CROP, type SlotCrop } from '@/lib/crop';
+import { DEFAULT_GRID_STYLE, type BackgroundFill, type GridStyle } from '@/lib/gridStyle';
+import { uniformLayout, type Layout } from '@/lib/layouts';
+import type { PhotoMetadata } from '@/lib/photoMetadata';
+import type { Sticker } from '@/lib/stickers';
+import type { TextLayer, TextStyle } from '@/lib/textLayers';
+
+/** Background of a generated tile. */
+export type TileFill = Exclude<BackgroundFill, { type: 'image' }>;
+
+/** A card of text over a solid or gradient background. */
+export type TextTile = TextStyle & { type: 'text'; background: TileFill };
+
+/** Content generated from settings rather than imported. */
+export type SlotTile = TileFill | TextTile;
+
+/** What a slot shows: nothing, a photo from the library, or a generated tile. */
+export type SlotContent =
+  | { type: 'empty' }
+  | { type: 'image'; file: File; preview: string; metadata: PhotoMetadata | null }
+  | SlotTile;
+
+export interface ImageSlot {
+  id: number;
+  content: SlotContent;
+  /** Framing and adjustments of a photo; tiles ignore them. */
+  crop: SlotCrop;
+  adjustments: SlotAdjustments;
+}
+
+export interface GridSize {
+  rows: number;
+  cols: number;
+}
+
+/** An imported image. Every import lands in the library, whether or not a slot is free for it. */
+export interface LibraryImage {
+  file: File;
+  /** Object URL of the file; also identifies the image in the tray. */
+  preview: string;
+  /** Read on import; null if the file could not be decoded. */
+  metadata: PhotoMetadata | null;
+}
+
+/** Everything an undo step restores. Large imports spill over into extra pages of the same layout. */
+export interface GridState {
+  layout: Layout;
+  /** Width divided by height of the canvas, or null to use the layout's own shape. */
+  canvasAspect: number | null;
+  style: GridStyle;
+  pages: ImageSlot[][];
+  /** Text layers of every page; each one records its page. */
+  texts: TextLayer[];
+  /** Stickers of every page; each one records its page. */
+  stickers: Sticker[];
+  library: LibraryImage[];
+}
+
+/** How a moved image lands: trade places with the target, or push the following slots along. */
+export type RearrangeMode = 'swap' | 'insert';
+
+/** DataTransfer type that marks a drag started from a slot rather than from the OS. */
+export const SLOT_DRAG_TYPE = 'application/x-grid-slot';
+
+/** DataTransfer type for a drag started from the staging tray; carries the image preview URL. */
+export const TRAY_DRAG_TYPE = 'application/x-grid-tray';
+
+export const MIN_GRID_DIMENSION = 1;
+export const MAX_GRID_DIMENSION = 6;
+
+export const DEFAULT_GRID_SIZE: GridSize = { rows: 3, cols: 3 };
+
+export const GRID_PRESETS: GridSize[] = [
+  { rows: 3, cols: 3 },
+  { rows: 2, cols: 2 },
+  { rows: 2, cols: 3 },
+  { rows: 4, cols: 4 },
+  { rows: 1, cols: 3 },
+];
+
+export const createEmptySlot = (id: number): ImageSlot => ({
+  id,
+  content: { type: 'empty' },
+  crop: DEFAULT_CROP,
+  adjustments: DEFAULT_ADJUSTMENTS,
+});
+
+/** Object URL of the slot's photo, or null when it shows no photo. */
+export const slotPreview = ({ content }: ImageSlot) => (content.type === 'image' ? content.preview : null);
+
+export const isFilled = ({ content }: ImageSlot) => content.type !== 'empty';
+
+export const isTile = (content: SlotContent): content is SlotTile => content.type !== 'empty' && content.type !== 'image';
+
+export const createSlots = (count: number): ImageSlot[] =>
+  Array.from({ length: count }, (_, i) => createEmptySlot(i));
+
+export const createGridState = (layout: Layout = uniformLayout(DEFAULT_GRID_SIZE)): GridState => ({
+  layout,
+  canvasAspect: null,
+  style: DEFAULT_GRID_STYLE,
+  pages: [createSlots(layout.cells.length)],
+  texts: [],
+  stickers: [],
+  library: [],
+});
+
+/** Object URLs referenced by the grid state. */
+export const collectPreviews = (state: GridState): string[] => [
+  ...state.pages.flat().flatMap(slot => (slot.content.type === 'image' ? [slot.content.preview] : [])),
+  ...state.library.map(image => image.preview),
+  ...(state.style.background.type === 'image' ? [state.style.background.preview] : []),
+  ...state.stickers.flatMap(sticker => (sticker.source.type === 'image' ? [sticker.source.preview] : [])),
+];
+
+/**
+ * Fits every page to a new cell count. Images and tiles that fall outside the new cells
+ * are moved into empty cells of their page first; the ones that still do not fit keep
+ * their crop and adjustments and move on to new pages added after the last one.
+ */
+export const resizePages = (pages: ImageSlot[][], count: number): ImageSlot[][] => {
+  const spilled: ImageSlot[] = [];
+  const resized = pages.map(slots => {
+    const visible = Array.from({ length: count }, (_, i) => slots[i] ?? createEmptySlot(i));
+    const overflow = slots.slice(count).filter(isFilled);
+
+    for (let i = 0; i < visible.length && overflow.length > 0; i++) {
+      if (!isFilled(visible[i])) {
+        visible[i] = overflow.shift()!;
+      }
+    }
+
+    spilled.push(...overflow);
+    return visible.map((slot, i) => ({ ...slot, id: i }));
+  });
+
+  const extraPages = Array.from({ length: Math.ceil(spilled.length / count) }, (_, pageIndex) =>
+    createSlots(count).map(slot => {
+      const moved = spilled[pageIndex * count + slot.id];
+      return moved ? { ...moved, id: slot.id } : slot;
+    })
+  );
+  return [...resized, ...extraPages];
+};
+
+const imageContent = ({ file, preview, metadata }: LibraryImage): SlotContent => ({
+  type: 'image',
+  file,
+  preview,
+  metadata,
+});
+
+/**
+ * Puts a library image into a slot with a fresh crop and no adjustments. An image lives in at most
+ * one slot across all pages, so any other slot showing it is emptied; the image
+ * previously in the target slot simply returns to the tray.
+ */
+export const placeImage = (
+  pages: ImageSlot[][],
+  pageIndex: number,
+  slotId: number,
+  image: LibraryImage
+): ImageSlot[][] =>
+  pages.map((page, i) =>
+    page.map(slot => {
+      if (i === pageIndex && slot.id === slotId) {
+        return { ...createEmptySlot(slotId), content: imageContent(image) };
+      }
+      if (slotPreview(slot) === image.preview) return createEmptySlot(slot.id);
+      return slot;
+    })
+  );
+
+/** Lays the images out over as many new pages of `count` slots as they need. */
+export const paginateImages = (images: LibraryImage[], count: number): ImageSlot[][] =>
+  Array.from({ length: Math.ceil(images.length / count) }, (_, pageIndex) =>
+    createSlots(count).map(slot => {
+      const image = images[pageIndex * count + slot.id];
+      return image ? { ...slot, content: imageContent(image) } : slot;
+    })
+  );
+
+/**
+ * Adds imported images to the library. As many as fit are placed on the page starting at
+ * `slotId`, or into its empty slots in order; the rest are laid out on new pages. Works on
+ * the state it is given, so an import that finishes late lands on the grid as it is by then.
+ */
+export const importImages = (
+  state: GridState,
+  pageIndex: number,
+  images: LibraryImage[],
+  slotId?: number
+): GridState => {
+  const slots = state.pages[pageIndex];
+  const targets = slotId !== undefined
+    ? slots.slice(slotId).map(slot => slot.id)
+    : slots.filter(slot => !isFilled(slot)).map(slot => slot.id);
+  const placedCount = Math.min(images.length, targets.length);
+
+  return {
+    ...state,
+    library: [...state.library, ...images],
+    pages: [
+      ...images
+        .slice(0, placedCount)
+        .reduce((pages, image, index) => placeImage(pages, pageIndex, targets[index], image), state.pages),
+      ...paginateImages(images.slice(placedCount), state.layout.cells.length),
+    ],
+  };
+};
+
+export const moveSlot = (slots: ImageSlot[], from: number, to: number, mode: RearrangeMode): ImageSlot[] => {
+  if (from === to) return slots;
+
+  const next = [...slots];
+  if (mode === 'swap') {
+    [next[from], next[to]] = [next[to], next[from]];
+  } else {
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+  }
+
+  return next.map((slot, i) => ({ ...slot, id: i }));
+};
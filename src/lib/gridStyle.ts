@@ -0,0 +1,103 @@
+import type { CSSProperties } from 'react';
+import { DEFAULT_ADJUSTMENTS, type SlotAdjustments } from '@/lib/adjustments';
+
+export type BackgroundFill =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number }
+  | { type: 'image'; file: File; preview: string };
+
+/**
+ * Look of the composite. Lengths are fractions of the canvas long edge, so the
+ * preview and an export at any size come out with the same proportions.
+ */
+export interface GridStyle {
+  gap: number;
+  padding: number;
+  radius: number;
+  borderWidth: number;
+  borderColor: string;
+  shadow: boolean;
+  background: BackgroundFill;
+  /** Applied to every photo, underneath each photo's own adjustments. */
+  adjustments: SlotAdjustments;
+}
+
+export type StyleLength = 'gap' | 'padding' | 'radius' | 'borderWidth';
+
+/** Slider ranges for the length settings. */
+export const STYLE_LIMITS: Record<StyleLength, number> = {
+  gap: 0.05,
+  padding: 0.1,
+  radius: 0.1,
+  borderWidth: 0.02,
+};
+
+/** Drop shadow under each cell, in fractions of the long edge like the other lengths. */
+export const CELL_SHADOW = { offsetY: 0.004, blur: 0.015, color: 'rgba(0, 0, 0, 0.25)' };
+
+/** Shown behind a cell's image, where transparent pixels would otherwise reveal the border or shadow fill. */
+export const CELL_FILL = '#ffffff';
+
+export const DEFAULT_GRID_STYLE: GridStyle = {
+  // The original export gap: 10px on a 920px 3×3 grid
+  gap: 10 / 920,
+  padding: 0,
+  radius: 0,
+  borderWidth: 0,
+  borderColor: '#ffffff',
+  shadow: false,
+  background: { type: 'solid', color: '#ffffff' },
+  adjustments: DEFAULT_ADJUSTMENTS,
+};
+
+/**
+ * A style length as CSS for the preview. The preview container is a size container,
+ * so `cqw` tracks its width; portrait canvases have their long edge vertically.
+ */
+export const previewLength = (value: number, aspect: number) =>
+  `${value * 100 * (aspect >= 1 ? 1 : 1 / aspect)}cqw`;
+
+export const backgroundCss = (fill: BackgroundFill) => {
+  if (fill.type === 'solid') return fill.color;
+  if (fill.type === 'gradient') return `linear-gradient(${fill.angle}deg, ${fill.from}, ${fill.to})`;
+  return `center / cover no-repeat url("${fill.preview}")`;
+};
+
+/** Border, corners and shadow of a filled preview cell. */
+export const cellPreviewStyle = (style: GridStyle, aspect: number, filled: boolean): CSSProperties => {
+  const length = (value: number) => previewLength(value, aspect);
+  const radius = { borderRadius: length(style.radius) };
+  if (!filled) return radius;
+
+  return {
+    ...radius,
+    background: CELL_FILL,
+    border: style.borderWidth > 0 ? `${length(style.borderWidth)} solid ${style.borderColor}` : 'none',
+    boxShadow: style.shadow
+      ? `0 ${length(CELL_SHADOW.offsetY)} ${length(CELL_SHADOW.blur)} ${CELL_SHADOW.color}`
+      : 'none',
+  };
+};
+
+/**
+ * Canvas gradient matching CSS `linear-gradient(angle, ...)`: the gradient line runs
+ * through the center at `angle` (0deg points up) and is just long enough for the
+ * corners to get the end colors.
+ */
+export const createCssLinearGradient = (
+  ctx: CanvasRenderingContext2D,
+  angle: number,
+  width: number,
+  height: number
+) => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return ctx.createLinearGradient(
+    width / 2 - dx * half,
+    height / 2 - dy * half,
+    width / 2 + dx * half,
+    height / 2 + dy * half
+  );
+};
@@ -0,0 +1,50 @@
+/** Brands in the `ftyp` box of HEIC files, as written by phones and cameras. */
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+
+/** Brands of any HEIF image, HEVC-coded or not; AVIF files use them too. */
+const GENERIC_BRANDS = ['mif1', 'msf1'];
+
+/** Brands of AVIF, which browsers show natively and the HEIC decoder cannot read. */
+const AVIF_BRANDS = ['avif', 'avis'];
+
+/** The `ftyp` box is a few brands long; this covers it with room to spare. */
+const FTYP_SCAN_BYTES = 64;
+
+/** JPEG quality of converted photos; high enough that the export does not lose detail. */
+const CONVERTED_QUALITY = 0.92;
+
+const readAscii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Whether a file is HEIC or HEIF, judged by its bytes rather than its MIME type, which
+ * browsers often leave empty for these files.
+ */
+export const isHeicFile = async (file: File) => {
+  const bytes = new Uint8Array(await file.slice(0, FTYP_SCAN_BYTES).arrayBuffer());
+  if (bytes.length < 16 || readAscii(bytes, 4, 8) !== 'ftyp') return false;
+
+  const major = readAscii(bytes, 8, 12);
+  if (HEIC_BRANDS.includes(major)) return true;
+  if (!GENERIC_BRANDS.includes(major)) return false;
+
+  // A generic major brand says nothing of the codec, so the compatible brands after
+  // the minor version decide: HEIC only if one names HEVC and none names AVIF
+  const boxSize = new DataView(bytes.buffer).getUint32(0);
+  const compatible: string[] = [];
+  for (let offset = 16; offset + 4 <= Math.min(boxSize, bytes.length); offset += 4) {
+    compatible.push(readAscii(bytes, offset, offset + 4));
+  }
+  return compatible.some(brand => HEIC_BRANDS.includes(brand)) && !compatible.some(brand => AVIF_BRANDS.includes(brand));
+};
+
+/**
+ * Decodes a HEIC or HEIF photo to a JPEG file of the same name that every browser
+ * can show and draw. The WASM decoder is several megabytes, so it is only loaded the
+ * first time a HEIC file is imported. Throws if the file cannot be decoded.
+ */
+export const convertHeic = async (file: File): Promise<File> => {
+  const { heicTo } = await import('heic-to');
+  const blob = await heicTo({ blob: file, type: 'image/jpeg', quality: CONVERTED_QUALITY });
+  const name = file.name.replace(/\.(heic|heif)$/i, '') + '.jpg';
+  return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+};
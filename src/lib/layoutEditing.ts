@@ -0,0 +1,117 @@
+import type { LayoutCell } from '@/lib/layouts';
+
+/** Smallest width or height a cell can be dragged down to, as a fraction of the layout. */
+export const MIN_CELL_SIZE = 0.05;
+
+export type SplitDirection = 'columns' | 'rows';
+
+/** The right edge runs vertically between columns; the bottom edge horizontally between rows. */
+export type DividerEdge = 'right' | 'bottom';
+
+const EPSILON = 1e-6;
+
+const near = (a: number, b: number) => Math.abs(a - b) < EPSILON;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/** Field names along and across a divider, so one implementation handles both edges. */
+const axes = {
+  right: { pos: 'x', size: 'w', crossPos: 'y', crossSize: 'h' },
+  bottom: { pos: 'y', size: 'h', crossPos: 'x', crossSize: 'w' },
+} as const;
+
+/** Cuts a cell in half; the new half is inserted right after it. */
+export const splitCell = (cells: LayoutCell[], index: number, direction: SplitDirection): LayoutCell[] => {
+  const cell = cells[index];
+  const halves: LayoutCell[] = direction === 'columns'
+    ? [
+      { ...cell, w: round(cell.w / 2) },
+      { ...cell, x: round(cell.x + cell.w / 2), w: round(cell.w / 2) },
+    ]
+    : [
+      { ...cell, h: round(cell.h / 2) },
+      { ...cell, y: round(cell.y + cell.h / 2), h: round(cell.h / 2) },
+    ];
+  return [...cells.slice(0, index), ...halves, ...cells.slice(index + 1)];
+};
+
+/** Two cells can merge when they share one complete edge, so their union is a rectangle. */
+export const canMerge = (a: LayoutCell, b: LayoutCell) =>
+  (near(a.y, b.y) && near(a.h, b.h) && (near(a.x + a.w, b.x) || near(b.x + b.w, a.x))) ||
+  (near(a.x, b.x) && near(a.w, b.w) && (near(a.y + a.h, b.y) || near(b.y + b.h, a.y)));
+
+/** Replaces two mergeable cells with their union, kept at the position of the earlier one. */
+export const mergeCells = (cells: LayoutCell[], first: number, second: number): LayoutCell[] => {
+  const a = cells[first];
+  const b = cells[second];
+  if (!canMerge(a, b)) return cells;
+
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  const merged = {
+    x,
+    y,
+    w: round(Math.max(a.x + a.w, b.x + b.w) - x),
+    h: round(Math.max(a.y + a.h, b.y + b.h) - y),
+  };
+  const keep = Math.min(first, second);
+  const drop = Math.max(first, second);
+  return cells.flatMap((cell, i) => (i === keep ? [merged] : i === drop ? [] : [cell]));
+};
+
+/**
+ * Cells on either side of the divider on the given edge of a cell. A divider runs
+ * as far as cells keep lining up along it, so moving it resizes all of them together.
+ */
+const dividerCells = (cells: LayoutCell[], index: number, edge: DividerEdge) => {
+  const { pos, size, crossPos, crossSize } = axes[edge];
+  const cell = cells[index];
+  const line = cell[pos] + cell[size];
+  let start = cell[crossPos];
+  let end = cell[crossPos] + cell[crossSize];
+  let before: number[] = [];
+  let after: number[] = [];
+
+  for (;;) {
+    const overlaps = (other: LayoutCell) =>
+      other[crossPos] < end - EPSILON && other[crossPos] + other[crossSize] > start + EPSILON;
+    before = cells.flatMap((other, i) => (near(other[pos] + other[size], line) && overlaps(other) ? [i] : []));
+    after = cells.flatMap((other, i) => (near(other[pos], line) && overlaps(other) ? [i] : []));
+
+    const span = [...before, ...after].map(i => cells[i]);
+    const nextStart = Math.min(...span.map(other => other[crossPos]));
+    const nextEnd = Math.max(...span.map(other => other[crossPos] + other[crossSize]));
+    if (near(nextStart, start) && near(nextEnd, end)) break;
+    start = nextStart;
+    end = nextEnd;
+  }
+
+  return { line, before, after };
+};
+
+/** Whether the given edge of a cell borders another cell rather than the outside of the layout. */
+export const hasDivider = (cells: LayoutCell[], index: number, edge: DividerEdge) =>
+  dividerCells(cells, index, edge).after.length > 0;
+
+/** Moves the divider on the given edge of a cell to `position`, keeping every cell at least `MIN_CELL_SIZE`. */
+export const moveDivider = (
+  cells: LayoutCell[],
+  index: number,
+  edge: DividerEdge,
+  position: number
+): LayoutCell[] => {
+  const { pos, size } = axes[edge];
+  const { line, before, after } = dividerCells(cells, index, edge);
+  if (after.length === 0) return cells;
+
+  const min = Math.max(...before.map(i => cells[i][pos])) + MIN_CELL_SIZE;
+  const max = Math.min(...after.map(i => cells[i][pos] + cells[i][size])) - MIN_CELL_SIZE;
+  const next = round(Math.min(max, Math.max(min, position)));
+  if (near(next, line)) return cells;
+
+  return cells.map((cell, i) => {
+    if (before.includes(i)) return { ...cell, [size]: round(next - cell[pos]) };
+    if (after.includes(i)) return { ...cell, [pos]: next, [size]: round(cell[pos] + cell[size] - next) };
+    return cell;
+  });
+};
@@ -0,0 +1,207 @@
+import type { CSSProperties } from 'react';
+import type { GridSize } from '@/lib/grid';
+
+/**
+ * A cell as a fractional rectangle of the layout. Coordinates include the gaps:
+ * a cell starts at `x * (width + gap)` and is `w * (width + gap) - gap` wide, so
+ * neighbouring cells are always exactly one gap apart.
+ */
+export interface LayoutCell {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Layout {
+  id: string;
+  /** Width divided by height of the whole layout. */
+  aspect: number;
+  cells: LayoutCell[];
+}
+
+export interface LayoutTemplate extends Layout {
+  /** Translation key of the template name. */
+  nameKey: string;
+}
+
+/** A layout drawn in the template editor. */
+export interface UserTemplate extends Layout {
+  name: string;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const uniformLayout = ({ rows, cols }: GridSize): Layout => ({
+  id: `grid-${rows}x${cols}`,
+  aspect: cols / rows,
+  cells: Array.from({ length: rows * cols }, (_, i) => ({
+    x: (i % cols) / cols,
+    y: Math.floor(i / cols) / rows,
+    w: 1 / cols,
+    h: 1 / rows,
+  })),
+});
+
+/** Rows and columns of a uniform grid layout, or null for a collage template. */
+export const uniformSize = (layout: Layout): GridSize | null => {
+  const match = layout.id.match(/^grid-(\d+)x(\d+)$/);
+  return match ? { rows: Number(match[1]), cols: Number(match[2]) } : null;
+};
+
+const third = 1 / 3;
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: 'hero-2x2',
+    nameKey: 'layoutHero',
+    aspect: 1,
+    cells: [
+      { x: 0, y: 0, w: 2 * third, h: 2 * third },
+      { x: 2 * third, y: 0, w: third, h: third },
+      { x: 2 * third, y: third, w: third, h: third },
+      { x: 0, y: 2 * third, w: third, h: third },
+      { x: third, y: 2 * third, w: third, h: third },
+      { x: 2 * third, y: 2 * third, w: third, h: third },
+    ],
+  },
+  {
+    id: 'hero-center',
+    nameKey: 'layoutHeroCenter',
+    aspect: 1,
+    cells: [
+      { x: 0, y: 0, w: 0.25, h: 0.25 },
+      { x: 0.25, y: 0, w: 0.5, h: 0.25 },
+      { x: 0.75, y: 0, w: 0.25, h: 0.25 },
+      { x: 0, y: 0.25, w: 0.25, h: 0.5 },
+      { x: 0.25, y: 0.25, w: 0.5, h: 0.5 },
+      { x: 0.75, y: 0.25, w: 0.25, h: 0.5 },
+      { x: 0, y: 0.75, w: 0.25, h: 0.25 },
+      { x: 0.25, y: 0.75, w: 0.5, h: 0.25 },
+      { x: 0.75, y: 0.75, w: 0.25, h: 0.25 },
+    ],
+  },
+  {
+    id: 'magazine-split',
+    nameKey: 'layoutMagazine',
+    aspect: 1,
+    cells: [
+      { x: 0, y: 0, w: 0.6, h: 1 },
+      { x: 0.6, y: 0, w: 0.4, h: 0.5 },
+      { x: 0.6, y: 0.5, w: 0.4, h: 0.5 },
+    ],
+  },
+  {
+    id: 'banner-top',
+    nameKey: 'layoutBanner',
+    aspect: 1,
+    cells: [
+      { x: 0, y: 0, w: 1, h: 0.5 },
+      { x: 0, y: 0.5, w: third, h: 0.5 },
+      { x: third, y: 0.5, w: third, h: 0.5 },
+      { x: 2 * third, y: 0.5, w: third, h: 0.5 },
+    ],
+  },
+  {
+    id: 'mosaic',
+    nameKey: 'layoutMosaic',
+    aspect: 1,
+    cells: [
+      { x: 0, y: 0, w: 0.5, h: third },
+      { x: 0.5, y: 0, w: 0.5, h: 2 * third },
+      { x: 0, y: third, w: 0.5, h: 2 * third },
+      { x: 0.5, y: 2 * third, w: 0.5, h: third },
+    ],
+  },
+  {
+    id: 'strip-asymmetric',
+    nameKey: 'layoutStrip',
+    aspect: 3,
+    cells: [
+      { x: 0, y: 0, w: 0.5, h: 1 },
+      { x: 0.5, y: 0, w: 0.25, h: 1 },
+      { x: 0.75, y: 0, w: 0.25, h: 1 },
+    ],
+  },
+];
+
+export interface CanvasPreset {
+  id: string;
+  /** Translation key of the preset name. */
+  nameKey: string;
+  /** Width divided by height. */
+  aspect: number;
+}
+
+/** Canvas shapes for common posting formats. Cells are fractions, so any layout reflows to fill them. */
+export const CANVAS_PRESETS: CanvasPreset[] = [
+  { id: '1:1', nameKey: 'canvasSquare', aspect: 1 },
+  { id: '4:5', nameKey: 'canvasPortrait', aspect: 4 / 5 },
+  { id: '3:4', nameKey: 'canvasXiaohongshu', aspect: 3 / 4 },
+  { id: '9:16', nameKey: 'canvasStory', aspect: 9 / 16 },
+  { id: '16:9', nameKey: 'canvasBanner', aspect: 16 / 9 },
+];
+
+export const MIN_CANVAS_ASPECT = 1 / 5;
+export const MAX_CANVAS_ASPECT = 5;
+
+export const clampCanvasAspect = (aspect: number) =>
+  Math.min(MAX_CANVAS_ASPECT, Math.max(MIN_CANVAS_ASPECT, aspect));
+
+/** The layout stretched to the chosen canvas shape, or unchanged when the canvas follows the layout. */
+export const withCanvasAspect = (layout: Layout, canvasAspect: number | null): Layout =>
+  canvasAspect === null ? layout : { ...layout, aspect: canvasAspect };
+
+/** Pixel rectangle of a cell in a `width` × `height` area with `gap` pixels between cells. */
+export const cellRect = (cell: LayoutCell, width: number, height: number, gap: number): PixelRect => ({
+  x: cell.x * (width + gap),
+  y: cell.y * (height + gap),
+  width: cell.w * (width + gap) - gap,
+  height: cell.h * (height + gap) - gap,
+});
+
+/** CSS positioning equivalent of `cellRect` for an absolutely positioned element; `gap` is a CSS length. */
+export const cellStyle = (cell: LayoutCell, gap: string): CSSProperties => ({
+  position: 'absolute',
+  left: `calc(${cell.x} * (100% + ${gap}))`,
+  top: `calc(${cell.y} * (100% + ${gap}))`,
+  width: `calc(${cell.w} * (100% + ${gap}) - ${gap})`,
+  height: `calc(${cell.h} * (100% + ${gap}) - ${gap})`,
+});
+
+/** Width divided by height of a cell, ignoring gaps. */
+export const cellAspect = (layout: Layout, cell: LayoutCell) => (cell.w * layout.aspect) / cell.h;
+
+export type Direction = 'left' | 'right' | 'up' | 'down';
+
+/** The nearest cell whose center lies in `direction` from the given cell, or -1 if there is none. */
+export const neighborCell = (layout: Layout, index: number, direction: Direction): number => {
+  const center = (cell: LayoutCell) => ({ x: cell.x + cell.w / 2, y: cell.y + cell.h / 2 });
+  const from = center(layout.cells[index]);
+  let best = -1;
+  let bestScore = Infinity;
+
+  layout.cells.forEach((cell, i) => {
+    if (i === index) return;
+    const to = center(cell);
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const along = { left: -dx, right: dx, up: -dy, down: dy }[direction];
+    const across = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 1e-6) return;
+
+    // Prefer cells straight ahead over diagonal ones
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,167 @@
+import { canvasToBlob } from '@/lib/download';
+
+/** What an import learns about a photo. Fields the file does not record are null. */
+export interface PhotoMetadata {
+  /** Pixel size after orientation, as the photo is shown. */
+  width: number;
+  height: number;
+  /** Capture time as a local ISO date-time without a zone, as cameras record it. */
+  takenAt: string | null;
+  /** Make and model of the camera. */
+  camera: string | null;
+  /** Whether the file holds more than one frame, as animated GIF, WebP and APNG do. */
+  animated: boolean;
+}
+
+interface ExifTags {
+  /** EXIF orientation, 1–8; 1 is upright. */
+  orientation: number;
+  takenAt: string | null;
+  camera: string | null;
+}
+
+const NO_EXIF: ExifTags = { orientation: 1, takenAt: null, camera: null };
+
+/** EXIF sits in an APP1 segment, which is limited to 64 KB and comes right after the JPEG header. */
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+/** JPEG quality used when a rotated photo is re-encoded upright. */
+const NORMALIZED_QUALITY = 0.92;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_ORIGINAL = 0x9003;
+const TAG_DATE = 0x0132;
+
+/** Formats that may hold an animation. */
+export const ANIMATED_IMAGE_TYPES = ['image/gif', 'image/webp', 'image/png', 'image/apng'];
+
+/** Reads the tags we use from the TIFF structure that starts at `tiff`. */
+const readTiff = (view: DataView, tiff: number): ExifTags => {
+  const little = view.getUint16(tiff) === 0x4949;
+  const uint16 = (offset: number) => view.getUint16(offset, little);
+  const uint32 = (offset: number) => view.getUint32(offset, little);
+
+  // Entries of an image file directory, keyed by tag; each points at its 12-byte record
+  const readIfd = (start: number) => {
+    const entries = new Map<number, number>();
+    const count = uint16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      entries.set(uint16(entry), entry);
+    }
+    return entries;
+  };
+
+  const readAscii = (entry: number | undefined) => {
+    if (entry === undefined) return null;
+    const length = uint32(entry + 4);
+    const start = length <= 4 ? entry + 8 : tiff + uint32(entry + 8);
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      const code = view.getUint8(start + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim() || null;
+  };
+
+  const ifd0 = readIfd(tiff + uint32(tiff + 4));
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifIfd = exifPointer === undefined ? new Map<number, number>() : readIfd(tiff + uint32(exifPointer + 8));
+
+  const orientationEntry = ifd0.get(TAG_ORIENTATION);
+  const orientation = orientationEntry === undefined ? 1 : uint16(orientationEntry + 8);
+
+  // "2024:05:01 14:30:00" becomes "2024-05-01T14:30:00"
+  const date = readAscii(exifIfd.get(TAG_DATE_ORIGINAL)) ?? readAscii(ifd0.get(TAG_DATE));
+  const match = date?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  const takenAt = match && match[1] !== '0000' ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : null;
+
+  const make = readAscii(ifd0.get(TAG_MAKE));
+  const model = readAscii(ifd0.get(TAG_MODEL));
+  // Many models already start with the make, such as "Canon EOS R6"
+  const camera = model && make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model ?? make;
+
+  return { orientation: orientation >= 1 && orientation <= 8 ? orientation : 1, takenAt, camera };
+};
+
+/** Reads orientation, capture time and camera from a JPEG's EXIF block. Other files, or broken EXIF, yield none. */
+const readExif = async (file: File): Promise<ExifTags> => {
+  if (file.type !== 'image/jpeg') return NO_EXIF;
+
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  try {
+    if (view.getUint16(0) !== 0xffd8) return NO_EXIF;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Stop at anything that is not a marker, and at the start of the image data
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      // APP1 starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return readTiff(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Offsets that run past the scanned bytes mean the EXIF block is damaged
+  }
+  return NO_EXIF;
+};
+
+/**
+ * Whether the browser's image decoder finds more than one frame in the file. Stills, and
+ * every file where the browser has no image decoder, count as not animated.
+ */
+const readAnimated = async (file: File) => {
+  if (typeof ImageDecoder === 'undefined' || !ANIMATED_IMAGE_TYPES.includes(file.type)) return false;
+
+  try {
+    if (!(await ImageDecoder.isTypeSupported(file.type))) return false;
+    const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+    try {
+      await decoder.tracks.ready;
+      const track = decoder.tracks.selectedTrack;
+      return Boolean(track?.animated && track.frameCount > 1);
+    } finally {
+      decoder.close();
+    }
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads a photo's metadata and, if its EXIF asks for a rotation or mirror, re-encodes
+ * it upright so every browser and the export show it the same way. Returns the file
+ * to use, which is the original unless it was rotated. Throws if the image cannot be decoded.
+ */
+export const readPhoto = async (file: File): Promise<{ file: File; metadata: PhotoMetadata }> => {
+  const { orientation, takenAt, camera } = await readExif(file);
+  const animated = await readAnimated(file);
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const metadata = { width: bitmap.width, height: bitmap.height, takenAt, camera, animated };
+    if (orientation === 1) return { file, metadata };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(bitmap, 0, 0);
+
+    const blob = await canvasToBlob(canvas, 'image/jpeg', NORMALIZED_QUALITY);
+    return {
+      file: new File([blob], file.name, { type: 'image/jpeg', lastModified: file.lastModified }),
+      metadata,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,364 @@
+import { isFilled, isTile, slotPreview, type ImageSlot, type SlotTile, type TileFill } from '@/lib/grid';
+import { combineAdjustments, type SlotAdjustments } from '@/lib/adjustments';
+import { DEFAULT_CROP, type SlotCrop } from '@/lib/crop';
+import { canvasToBlob, releaseCanvas, sequenceFileName, type ZipEntry } from '@/lib/download';
+import { EXPORT_FORMATS, extensionForBlob, type ExportSettings } from '@/lib/exportSettings';
+import { cellAspect, cellRect, type Layout, type PixelRect } from '@/lib/layouts';
+import { CELL_FILL, CELL_SHADOW, createCssLinearGradient, type BackgroundFill, type GridStyle } from '@/lib/gridStyle';
+import { drawSticker, stickerImageUrl, type Sticker } from '@/lib/stickers';
+import { drawText, type TextLayer } from '@/lib/textLayers';
+import { drawWatermark, isWatermarkActive, type Watermark } from '@/lib/watermark';
+
+/** Text and stickers of the page being rendered. */
+export interface PageOverlays {
+  texts: TextLayer[];
+  stickers: Sticker[];
+}
+
+/** Anything the composite can draw as a photo: a loaded image or a decoded animation frame. */
+export type FrameImage = CanvasImageSource & { width: number; height: number };
+
+export interface RenderGridOptions extends PageOverlays {
+  layout: Layout;
+  width: number;
+  height: number;
+  style: GridStyle;
+}
+
+/** Canvas dimensions that make the longer edge of the composite `size` pixels long. */
+export const canvasSizeForLayout = ({ aspect }: Layout, size: number) => ({
+  width: Math.round(aspect >= 1 ? size : size * aspect),
+  height: Math.round(aspect >= 1 ? size / aspect : size),
+});
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+    image.src = src;
+  });
+
+/**
+ * Draws `image` into the given rect with object-fit: cover behaviour, then applies
+ * the slot crop around the rect center the same way `cropTransform` does in CSS.
+ */
+export const drawImageCover = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  crop: SlotCrop = DEFAULT_CROP,
+  radius = 0
+) => {
+  const scale = Math.max(width / image.width, height / image.height) * crop.scale;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+  ctx.clip();
+  ctx.translate(x + width / 2 + crop.x * width, y + height / 2 + crop.y * height);
+  ctx.rotate((crop.rotation * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  ctx.restore();
+};
+
+/**
+ * Draws a cover-fitted image with adjustment layers: their filters through the canvas
+ * `filter`, then their warmth tints blended with soft-light, as the preview does in CSS.
+ */
+const drawAdjustedImage = (
+  ctx: CanvasRenderingContext2D,
+  image: FrameImage,
+  rect: PixelRect,
+  crop: SlotCrop,
+  radius: number,
+  layers: SlotAdjustments[],
+  unit: number
+) => {
+  const { filter, tints } = combineAdjustments(layers, blur => `${blur * unit}px`);
+
+  ctx.save();
+  ctx.filter = filter;
+  drawImageCover(ctx, image, rect.x, rect.y, rect.width, rect.height, crop, radius);
+  ctx.restore();
+
+  tints.forEach(tint => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, radius);
+    ctx.clip();
+    ctx.globalCompositeOperation = 'soft-light';
+    ctx.fillStyle = tint;
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.restore();
+  });
+};
+
+/** Fill style for a solid or gradient fill of a `width`×`height` area at the origin. */
+const fillStyleFor = (ctx: CanvasRenderingContext2D, fill: TileFill, width: number, height: number) => {
+  if (fill.type === 'solid') return fill.color;
+
+  const gradient = createCssLinearGradient(ctx, fill.angle, width, height);
+  gradient.addColorStop(0, fill.from);
+  gradient.addColorStop(1, fill.to);
+  return gradient;
+};
+
+const fillBackground = (
+  ctx: CanvasRenderingContext2D,
+  fill: BackgroundFill,
+  image: HTMLImageElement | null,
+  width: number,
+  height: number
+) => {
+  if (fill.type === 'image') {
+    if (image) drawImageCover(ctx, image, 0, 0, width, height);
+    return;
+  }
+
+  ctx.fillStyle = fillStyleFor(ctx, fill, width, height);
+  ctx.fillRect(0, 0, width, height);
+};
+
+/** Fills a tile's background and draws its text, clipped to the cell shape like the preview. */
+const drawTile = (ctx: CanvasRenderingContext2D, tile: SlotTile, rect: PixelRect, radius: number, unit: number) => {
+  const area = { x: 0, y: 0, width: rect.width, height: rect.height };
+
+  ctx.save();
+  ctx.translate(rect.x, rect.y);
+  ctx.beginPath();
+  ctx.roundRect(0, 0, rect.width, rect.height, radius);
+  ctx.clip();
+  ctx.fillStyle = fillStyleFor(ctx, tile.type === 'text' ? tile.background : tile, rect.width, rect.height);
+  ctx.fillRect(0, 0, rect.width, rect.height);
+  if (tile.type === 'text') drawText(ctx, tile, area, unit);
+  ctx.restore();
+};
+
+/** Fills the cell shape, casting the shadow; the border is whatever the image leaves uncovered. */
+const drawCellFrame = (ctx: CanvasRenderingContext2D, rect: PixelRect, style: GridStyle, unit: number) => {
+  const radius = style.radius * unit;
+  const border = style.borderWidth * unit;
+
+  ctx.save();
+  if (style.shadow) {
+    ctx.shadowColor = CELL_SHADOW.color;
+    ctx.shadowBlur = CELL_SHADOW.blur * unit;
+    ctx.shadowOffsetY = CELL_SHADOW.offsetY * unit;
+  }
+  ctx.fillStyle = border > 0 ? style.borderColor : CELL_FILL;
+  ctx.beginPath();
+  ctx.roundRect(rect.x, rect.y, rect.width, rect.height, radius);
+  ctx.fill();
+  ctx.restore();
+
+  if (border > 0) {
+    ctx.fillStyle = CELL_FILL;
+    ctx.beginPath();
+    ctx.roundRect(rect.x + border, rect.y + border, rect.width - border * 2, rect.height - border * 2, Math.max(0, radius - border));
+    ctx.fill();
+  }
+};
+
+/** Images a composite draws, loaded once so an animation can draw many frames from them. */
+export interface GridImages {
+  background: HTMLImageElement | null;
+  /** Photo of each layout cell, or null for empty cells and tiles. */
+  cells: (HTMLImageElement | null)[];
+  stickers: (HTMLImageElement | null)[];
+}
+
+export const loadGridImages = async (
+  slots: ImageSlot[],
+  { layout, style, stickers }: Pick<RenderGridOptions, 'layout' | 'style' | 'stickers'>
+): Promise<GridImages> => {
+  const [background, cells, stickerImages] = await Promise.all([
+    style.background.type === 'image' ? loadImage(style.background.preview) : null,
+    Promise.all(layout.cells.map((_, index) => {
+      const preview = slots[index] ? slotPreview(slots[index]) : null;
+      return preview ? loadImage(preview) : null;
+    })),
+    Promise.all(stickers.map(sticker => {
+      const url = stickerImageUrl(sticker.source);
+      return url ? loadImage(url) : null;
+    })),
+  ]);
+  // Fonts the page is still loading would otherwise draw as fallbacks
+  await document.fonts.ready;
+  return { background, cells, stickers: stickerImages };
+};
+
+/**
+ * Draws the composite from loaded images. `frames` replaces the photo of a cell with
+ * the current frame of its animation; cells without one keep their still image.
+ */
+export const drawGrid = (
+  ctx: CanvasRenderingContext2D,
+  slots: ImageSlot[],
+  options: RenderGridOptions,
+  images: GridImages,
+  frames: (FrameImage | null)[] = []
+) => {
+  const { layout, width, height, style, texts, stickers } = options;
+  fillBackground(ctx, style.background, images.background, width, height);
+
+  // Style lengths are fractions of the long edge
+  const unit = Math.max(width, height);
+  const padding = style.padding * unit;
+  const border = style.borderWidth * unit;
+
+  const rects = layout.cells.map(cell => {
+    const rect = cellRect(cell, width - padding * 2, height - padding * 2, style.gap * unit);
+    return { ...rect, x: rect.x + padding, y: rect.y + padding };
+  });
+
+  // Cells are drawn in order once all images are in, so shadows always fall the same way
+  layout.cells.forEach((_, index) => {
+    const slot = slots[index];
+    if (!slot || !isFilled(slot)) return;
+
+    const rect = rects[index];
+    const inner = { x: rect.x + border, y: rect.y + border, width: rect.width - border * 2, height: rect.height - border * 2 };
+    const radius = Math.max(0, style.radius * unit - border);
+    drawCellFrame(ctx, rect, style, unit);
+
+    const image = frames[index] ?? images.cells[index];
+    if (image) {
+      drawAdjustedImage(ctx, image, inner, slot.crop, radius, [style.adjustments, slot.adjustments], unit);
+    } else if (isTile(slot.content)) {
+      drawTile(ctx, slot.content, inner, radius, unit);
+    }
+  });
+
+  // Text goes on top of every cell
+  texts.forEach(layer => {
+    const rect = layer.cell === null ? { x: 0, y: 0, width, height } : rects[layer.cell];
+    if (rect) drawText(ctx, layer, rect, unit);
+  });
+
+  // Stickers decorate the finished composite and may cross cell boundaries
+  stickers.forEach((sticker, index) => drawSticker(ctx, sticker, images.stickers[index], width, height, unit));
+};
+
+/** Renders each slot into its layout cell on a single composite canvas, styled like the preview. */
+export const renderGrid = async (slots: ImageSlot[], options: RenderGridOptions): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  drawGrid(ctx, slots, options, await loadGridImages(slots, options));
+  return canvas;
+};
+
+/**
+ * Renders a single slot with the given width/height ratio and a long edge of `size` pixels,
+ * with the grid-wide adjustments underneath the slot's own. `unit` is the long edge of the
+ * whole canvas at this scale, so blur and text come out the same size as in the composite.
+ */
+export const renderSlot = async (
+  slot: ImageSlot,
+  size: number,
+  aspect = 1,
+  gridAdjustments?: SlotAdjustments,
+  unit = size
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(aspect >= 1 ? size : size * aspect);
+  canvas.height = Math.round(aspect >= 1 ? size / aspect : size);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const rect = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  if (slot.content.type === 'image') {
+    const image = await loadImage(slot.content.preview);
+    const layers = gridAdjustments ? [gridAdjustments, slot.adjustments] : [slot.adjustments];
+    drawAdjustedImage(ctx, image, rect, slot.crop, 0, layers, unit);
+  } else if (isTile(slot.content)) {
+    await document.fonts.ready;
+    drawTile(ctx, slot.content, rect, 0, unit);
+  }
+
+  return canvas;
+};
+
+/**
+ * Loads what stamping the watermark needs, once for any number of images: waits for the
+ * fonts of a text mark and resolves to the decoded logo of a logo mark, or null.
+ */
+export const loadWatermarkLogo = async (watermark: Watermark | null) => {
+  if (!watermark || !isWatermarkActive(watermark)) return null;
+  await document.fonts.ready;
+  return watermark.type === 'logo' && watermark.logo ? loadImage(watermark.logo) : null;
+};
+
+/** Stamps an active watermark onto a finished export; `logo` comes from `loadWatermarkLogo`. */
+export const stampWatermark = (canvas: HTMLCanvasElement, watermark: Watermark | null, logo: HTMLImageElement | null) => {
+  if (!watermark || !isWatermarkActive(watermark)) return;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  drawWatermark(ctx, watermark, logo, canvas.width, canvas.height);
+};
+
+/** Renders and encodes the composite with the given export settings and watermark. */
+export const exportGrid = async (
+  slots: ImageSlot[],
+  layout: Layout,
+  style: GridStyle,
+  overlays: PageOverlays,
+  settings: ExportSettings,
+  watermark: Watermark | null
+): Promise<Blob> => {
+  const canvas = await renderGrid(slots, {
+    layout,
+    ...canvasSizeForLayout(layout, settings.size),
+    style,
+    ...overlays,
+  });
+  try {
+    stampWatermark(canvas, watermark, await loadWatermarkLogo(watermark));
+    return await canvasToBlob(canvas, EXPORT_FORMATS[settings.format].mime, settings.quality);
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
+
+/**
+ * Renders every filled slot, tiles included, in the shape of its cell, numbered in
+ * posting order under `folder`. Each file carries its own copy of the watermark.
+ * Slots are rendered one at a time, since each canvas may be thousands of pixels across.
+ */
+export const exportSlotFiles = async (
+  slots: ImageSlot[],
+  layout: Layout,
+  gridAdjustments: SlotAdjustments,
+  size: number,
+  settings: ExportSettings,
+  watermark: Watermark | null,
+  folder = ''
+): Promise<ZipEntry[]> => {
+  const logo = await loadWatermarkLogo(watermark);
+  const entries: ZipEntry[] = [];
+  for (const [index, slot] of slots.filter(isFilled).entries()) {
+    const cell = layout.cells[slot.id];
+    // The canvas long edge in pixels when this cell's long edge is `size`
+    const unit = size / Math.max(cell.w * Math.min(1, layout.aspect), cell.h * Math.min(1, 1 / layout.aspect));
+    const canvas = await renderSlot(slot, size, cellAspect(layout, cell), gridAdjustments, unit);
+    try {
+      stampWatermark(canvas, watermark, logo);
+      const blob = await canvasToBlob(canvas, EXPORT_FORMATS[settings.format].mime, settings.quality);
+      entries.push({ name: `${folder}${sequenceFileName(index + 1, extensionForBlob(blob))}`, blob });
+    } finally {
+      releaseCanvas(canvas);
+    }
+  }
+  return entries;
+};
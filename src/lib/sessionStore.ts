@@ -0,0 +1,122 @@
+import type { SlotAdjustments } from '@/lib/adjustments';
+import type { SlotCrop } from '@/lib/crop';
+import type { ExportSettings } from '@/lib/exportSettings';
+import type { BackgroundFill, GridStyle } from '@/lib/gridStyle';
+import type { SlotContent } from '@/lib/grid';
+import type { Layout } from '@/lib/layouts';
+import type { PhotoMetadata } from '@/lib/photoMetadata';
+import type { Sticker, StickerSource } from '@/lib/stickers';
+import type { TextLayer } from '@/lib/textLayers';
+
+/**
+ * Slot content with photos kept as files, since object URLs do not survive a reload.
+ * A photo's metadata is restored from its library entry.
+ */
+export type SavedSlotContent = Exclude<SlotContent, { type: 'image' }> | { type: 'image'; file: File };
+
+export interface SavedLibraryImage {
+  file: File;
+  metadata: PhotoMetadata | null;
+}
+
+/** Sticker with an image of the user's own kept as a file. */
+export type SavedSticker = Omit<Sticker, 'source'> & {
+  source: Exclude<StickerSource, { type: 'image' }> | { type: 'image'; file: File };
+};
+
+export interface SavedSlot {
+  content: SavedSlotContent;
+  crop: SlotCrop;
+  adjustments: SlotAdjustments;
+}
+
+/** Grid style with the background image kept as a file, since object URLs do not survive a reload. */
+export type SavedGridStyle = Omit<GridStyle, 'background'> & {
+  background: Exclude<BackgroundFill, { type: 'image' }> | { type: 'image'; file: File };
+};
+
+/** Version of the saved format; bump it and add a migration when the format changes. */
+export const SESSION_VERSION = 1;
+
+export interface SavedSession {
+  version: typeof SESSION_VERSION;
+  savedAt: number;
+  layout: Layout;
+  canvasAspect: number | null;
+  style: SavedGridStyle;
+  exportSettings: ExportSettings;
+  pages: SavedSlot[][];
+  texts: TextLayer[];
+  stickers: SavedSticker[];
+  /** Every imported photo, including the ones waiting in the tray. */
+  library: SavedLibraryImage[];
+}
+
+const DB_NAME = 'photo-grid';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+const SESSION_KEY = 'current';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+};
+
+export const loadSession = async (): Promise<SavedSession | null> => {
+  const session = await withStore<SavedSession | undefined>(
+    'readonly',
+    store => store.get(SESSION_KEY)
+  );
+  return session?.version === SESSION_VERSION ? session : null;
+};
+
+export const saveSession = (session: SavedSession) =>
+  withStore('readwrite', store => store.put(session, SESSION_KEY));
+
+export const clearSession = () =>
+  withStore('readwrite', store => store.delete(SESSION_KEY));
+
+export const sessionBytes = (session: Pick<SavedSession, 'library' | 'style' | 'stickers'>) =>
+  session.library.reduce((total, { file }) => total + file.size, 0) +
+  (session.style.background.type === 'image' ? session.style.background.file.size : 0) +
+  session.stickers.reduce((total, { source }) => total + (source.type === 'image' ? source.file.size : 0), 0);
+
+/** Whether a session holds anything the user made: photos, tiles, text, stickers or a background image. */
+export const hasSessionContent = (session: SavedSession) =>
+  session.library.length > 0 ||
+  session.texts.length > 0 ||
+  session.stickers.length > 0 ||
+  session.style.background.type === 'image' ||
+  session.pages.some(page => page.some(slot => slot.content.type !== 'empty'));
+
+/** Usage and quota for this origin, or null where the Storage API is unavailable or refuses to answer. */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    // Private browsing modes may reject the call; saving can still succeed without the check
+    return null;
+  }
+};
@@ -0,0 +1,77 @@
+/** Tile order when posting: Instagram shows the newest post first, Moments keeps upload order. */
+export type PostingOrder = 'instagram' | 'reading';
+
+export interface SplitOptions {
+  rows: number;
+  cols: number;
+  /** Output width of each tile in pixels. */
+  tileWidth: number;
+  /** Tile height divided by tile width, e.g. 1.25 for 4:5 portrait tiles. */
+  tileAspect: number;
+  /** Gap the platform inserts between tiles, as a fraction of the tile width. 0 disables compensation. */
+  gutter: number;
+  order: PostingOrder;
+}
+
+export interface Tile {
+  row: number;
+  col: number;
+  /** 1-based position in the posting sequence. */
+  postIndex: number;
+  canvas: HTMLCanvasElement;
+}
+
+export const TILE_ASPECTS = [
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 5 / 4 },
+  { label: '3:4', value: 4 / 3 },
+];
+
+/** Returns `[row, col]` pairs in the order the tiles have to be posted. */
+export const postingSequence = (rows: number, cols: number, order: PostingOrder): [number, number][] => {
+  const reading = Array.from({ length: rows * cols }, (_, i): [number, number] => [Math.floor(i / cols), i % cols]);
+  return order === 'instagram' ? reading.reverse() : reading;
+};
+
+/**
+ * Slices `image` into `rows * cols` tiles. The image is cover-fitted to the full
+ * tile area including gutters, and the strips that fall into the gutters are
+ * skipped so the picture lines up once the platform adds its own gaps.
+ */
+export const splitImage = (
+  image: CanvasImageSource & { width: number; height: number },
+  options: SplitOptions
+): Tile[] => {
+  const { rows, cols, tileWidth, tileAspect, gutter, order } = options;
+  const tileHeight = Math.round(tileWidth * tileAspect);
+
+  // Work in units of one tile width so gutters scale with the source image.
+  const totalWidth = cols + (cols - 1) * gutter;
+  const totalHeight = rows * tileAspect + (rows - 1) * gutter;
+  const unit = Math.min(image.width / totalWidth, image.height / totalHeight);
+  const offsetX = (image.width - totalWidth * unit) / 2;
+  const offsetY = (image.height - totalHeight * unit) / 2;
+
+  return postingSequence(rows, cols, order).map(([row, col], i) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = tileWidth;
+    canvas.height = tileHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+
+    ctx.drawImage(
+      image,
+      offsetX + col * (1 + gutter) * unit,
+      offsetY + row * (tileAspect + gutter) * unit,
+      unit,
+      tileAspect * unit,
+      0,
+      0,
+      tileWidth,
+      tileHeight
+    );
+
+    return { row, col, postIndex: i + 1, canvas };
+  });
+};
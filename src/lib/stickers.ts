@@ -0,0 +1,195 @@
+import type { CSSProperties } from 'react';
+import { previewLength } from '@/lib/gridStyle';
+
+/** What a sticker shows: an emoji, one of the bundled SVGs, or an image of the user's own. */
+export type StickerSource =
+  | { type: 'emoji'; emoji: string }
+  | { type: 'bundled'; id: string }
+  | { type: 'image'; file: File; preview: string };
+
+/**
+ * A decoration placed anywhere on the canvas, above the cells and the text. Stickers
+ * of a page are drawn in array order, so later ones sit on top.
+ */
+export interface Sticker {
+  id: string;
+  /** Index of the page the sticker sits on. */
+  page: number;
+  source: StickerSource;
+  /** Center of the sticker as a fraction of the canvas. */
+  x: number;
+  y: number;
+  /** Width as a fraction of the canvas long edge, like the grid style lengths. */
+  size: number;
+  /** Width divided by height of the sticker artwork. */
+  aspect: number;
+  /** Clockwise, in degrees. */
+  rotation: number;
+}
+
+export interface BundledSticker {
+  id: string;
+  aspect: number;
+  svg: string;
+}
+
+const svg = (viewBox: string, width: number, height: number, body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${width}" height="${height}">${body}</svg>`;
+
+/** SVG artwork shipped with the app; the markup carries a size so every browser can draw it to a canvas. */
+export const BUNDLED_STICKERS: BundledSticker[] = [
+  {
+    id: 'heart',
+    aspect: 1,
+    svg: svg('0 0 100 100', 100, 100, '<path d="M50 88C20 66 6 50 6 32 6 18 17 8 30 8c9 0 16 5 20 12 4-7 11-12 20-12 13 0 24 10 24 24 0 18-14 34-44 56z" fill="#ff5a7a"/>'),
+  },
+  {
+    id: 'star',
+    aspect: 1,
+    svg: svg('0 0 100 100', 100, 100, '<polygon points="50,7 61.2,37.6 93.7,38.8 68.1,58.9 77,90.2 50,72 23,90.2 31.9,58.9 6.3,38.8 38.8,37.6" fill="#ffc83d" stroke="#f29f05" stroke-width="3" stroke-linejoin="round"/>'),
+  },
+  {
+    id: 'sparkle',
+    aspect: 1,
+    svg: svg('0 0 100 100', 100, 100, '<path d="M50 4c4 32 14 42 46 46-32 4-42 14-46 46-4-32-14-42-46-46 32-4 42-14 46-46z" fill="#ffd84d"/>'),
+  },
+  {
+    id: 'sun',
+    aspect: 1,
+    svg: svg('0 0 100 100', 100, 100, '<circle cx="50" cy="50" r="22" fill="#ffb703"/><path d="M80 50h14M71.2 71.2l9.9 9.9M50 80v14M28.8 71.2l-9.9 9.9M20 50H6M28.8 28.8l-9.9-9.9M50 20V6M71.2 28.8l9.9-9.9" stroke="#ffb703" stroke-width="6" stroke-linecap="round"/>'),
+  },
+  {
+    id: 'cloud',
+    aspect: 1.6,
+    svg: svg('0 0 160 100', 160, 100, '<path d="M40 86a30 30 0 0 1-4-60 38 38 0 0 1 72-6 30 30 0 0 1 16 66z" fill="#ffffff" stroke="#a5c8ff" stroke-width="5" stroke-linejoin="round"/>'),
+  },
+  {
+    id: 'flower',
+    aspect: 1,
+    svg: svg('0 0 100 100', 100, 100, '<g fill="#ff8fab"><circle cx="50" cy="24" r="18"/><circle cx="75" cy="42" r="18"/><circle cx="65" cy="72" r="18"/><circle cx="35" cy="72" r="18"/><circle cx="25" cy="42" r="18"/></g><circle cx="50" cy="50" r="14" fill="#ffd166"/>'),
+  },
+  {
+    id: 'crown',
+    aspect: 1.4,
+    svg: svg('0 0 140 100', 140, 100, '<path d="M12 84 6 24l34 26L70 10l30 40 34-26-6 60z" fill="#ffc83d" stroke="#e09f00" stroke-width="4" stroke-linejoin="round"/><rect x="12" y="78" width="116" height="14" rx="4" fill="#e09f00"/>'),
+  },
+  {
+    id: 'bubble',
+    aspect: 1.25,
+    svg: svg('0 0 125 100', 125, 100, '<path d="M20 6h85a14 14 0 0 1 14 14v44a14 14 0 0 1-14 14H52L30 96l4-18H20A14 14 0 0 1 6 64V20A14 14 0 0 1 20 6z" fill="#ffffff" stroke="#333333" stroke-width="4" stroke-linejoin="round"/>'),
+  },
+  {
+    id: 'tape',
+    aspect: 3.2,
+    svg: svg('0 0 160 50', 160, 50, '<path d="M4 6h152l-4 8 4 8-4 7 4 8-4 7 4 6H4l4-6-4-7 4-8-4-7 4-8z" fill="#a0d8c8" fill-opacity="0.75"/>'),
+  },
+];
+
+export const STICKER_EMOJIS = [
+  '😀', '😍', '🥰', '😎', '🤩', '😂', '🥳', '😋',
+  '❤️', '✨', '🔥', '⭐', '🌸', '🌈', '☀️', '🌙',
+  '🎉', '🎂', '🎁', '📷', '✈️', '🍰', '☕', '🐱',
+];
+
+/** Color emoji faces first, so the canvas does not fall back to a monochrome glyph. */
+const EMOJI_FONT = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+
+/** An emoji fills this share of its sticker box, leaving room for glyphs that overhang the em box. */
+const EMOJI_SCALE = 0.85;
+
+export const MIN_STICKER_SIZE = 0.03;
+export const MAX_STICKER_SIZE = 1;
+
+export const bundledStickerUrl = (sticker: BundledSticker) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sticker.svg)}`;
+
+const findBundled = (id: string) => BUNDLED_STICKERS.find(sticker => sticker.id === id) ?? BUNDLED_STICKERS[0];
+
+/** URL the sticker artwork loads from, or null for an emoji. */
+export const stickerImageUrl = (source: StickerSource) => {
+  if (source.type === 'emoji') return null;
+  return source.type === 'bundled' ? bundledStickerUrl(findBundled(source.id)) : source.preview;
+};
+
+export const createSticker = (page: number, source: StickerSource, aspect: number): Sticker => ({
+  id: `sticker-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  page,
+  source,
+  x: 0.5,
+  y: 0.5,
+  size: 0.15,
+  aspect,
+  rotation: 0,
+});
+
+export const stickersOnPage = (stickers: Sticker[], page: number) => stickers.filter(sticker => sticker.page === page);
+
+/** Drops the stickers of a deleted page and moves those on later pages down one index. */
+export const removePageStickers = (stickers: Sticker[], page: number): Sticker[] =>
+  stickers
+    .filter(sticker => sticker.page !== page)
+    .map(sticker => (sticker.page > page ? { ...sticker, page: sticker.page - 1 } : sticker));
+
+/**
+ * Moves a sticker one step up or down among the stickers of its page. Stickers of
+ * other pages keep their places in the array.
+ */
+export const reorderSticker = (stickers: Sticker[], id: string, direction: 1 | -1): Sticker[] => {
+  const index = stickers.findIndex(sticker => sticker.id === id);
+  if (index < 0) return stickers;
+
+  const page = stickers[index].page;
+  let target = index + direction;
+  while (target >= 0 && target < stickers.length && stickers[target].page !== page) target += direction;
+  if (target < 0 || target >= stickers.length) return stickers;
+
+  const next = [...stickers];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/** Box of a sticker in the preview, positioned in the canvas; matches `drawSticker`. */
+export const stickerPreviewStyle = (sticker: Sticker, aspect: number): CSSProperties => ({
+  position: 'absolute',
+  left: `${sticker.x * 100}%`,
+  top: `${sticker.y * 100}%`,
+  width: previewLength(sticker.size, aspect),
+  aspectRatio: sticker.aspect,
+  transform: `translate(-50%, -50%) rotate(${sticker.rotation}deg)`,
+});
+
+/** Font for an emoji sticker in the preview. */
+export const emojiPreviewStyle = (sticker: Sticker, aspect: number): CSSProperties => ({
+  fontFamily: EMOJI_FONT,
+  fontSize: previewLength(sticker.size * EMOJI_SCALE, aspect),
+  lineHeight: 1,
+});
+
+/**
+ * Draws a sticker centered on its position. `image` is the loaded artwork, or null
+ * for an emoji. `unit` is the canvas long edge in pixels.
+ */
+export const drawSticker = (
+  ctx: CanvasRenderingContext2D,
+  sticker: Sticker,
+  image: HTMLImageElement | null,
+  width: number,
+  height: number,
+  unit: number
+) => {
+  const boxWidth = sticker.size * unit;
+  const boxHeight = boxWidth / sticker.aspect;
+
+  ctx.save();
+  ctx.translate(sticker.x * width, sticker.y * height);
+  ctx.rotate((sticker.rotation * Math.PI) / 180);
+  if (image) {
+    ctx.drawImage(image, -boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight);
+  } else if (sticker.source.type === 'emoji') {
+    ctx.font = `${boxWidth * EMOJI_SCALE}px ${EMOJI_FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(sticker.source.emoji, 0, 0);
+  }
+  ctx.restore();
+};
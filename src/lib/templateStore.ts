@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import {
+  LAYOUT_TEMPLATES,
+  MAX_CANVAS_ASPECT,
+  MIN_CANVAS_ASPECT,
+  type UserTemplate,
+} from '@/lib/layouts';
+import type { Parsed } from '@/lib/utils';
+
+/** Version of the shared template file; bump it and add a migration when the format changes. */
+export const TEMPLATE_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'photo-grid-templates';
+
+/** Cells may overshoot the layout edge, or each other, by rounding error, but no more. */
+const EDGE_TOLERANCE = 1e-3;
+
+const cellSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    w: z.number().positive().max(1),
+    h: z.number().positive().max(1),
+  })
+  .refine(cell => cell.x + cell.w <= 1 + EDGE_TOLERANCE && cell.y + cell.h <= 1 + EDGE_TOLERANCE, {
+    message: 'Cell extends beyond the layout',
+  });
+
+type CellData = z.infer<typeof cellSchema>;
+
+const overlap = (a: CellData, b: CellData) =>
+  Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x) > EDGE_TOLERANCE &&
+  Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y) > EDGE_TOLERANCE;
+
+const hasOverlap = (cells: CellData[]) => cells.some((cell, i) => cells.slice(i + 1).some(other => overlap(cell, other)));
+
+// Ids of uniform grids are derived from their size, and built-in templates own theirs,
+// so a user template with one of those ids would shadow a built-in layout
+const isReservedId = (id: string) => id.startsWith('grid-') || LAYOUT_TEMPLATES.some(template => template.id === id);
+
+const templateSchema = z.object({
+  id: z.string().min(1).refine(id => !isReservedId(id), { message: 'Reserved template id' }),
+  name: z.string().trim().min(1).max(60),
+  // The same range the canvas aspect is held to, so a template never makes a shape the canvas cannot
+  aspect: z.number().min(MIN_CANVAS_ASPECT).max(MAX_CANVAS_ASPECT),
+  cells: z.array(cellSchema).min(1).max(36).refine(cells => !hasOverlap(cells), { message: 'Cells overlap' }),
+});
+
+const templateFileSchema = z.object({
+  version: z.literal(TEMPLATE_FILE_VERSION),
+  templates: z.array(templateSchema),
+});
+
+export const createTemplateId = () => `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Templates saved in this browser, or none if the stored list is missing or unreadable.
+ * Entries that no longer validate, such as one imported before built-in ids were reserved, are dropped.
+ */
+export const loadUserTemplates = (): UserTemplate[] => {
+  try {
+    const parsed = z.array(z.unknown()).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    if (!parsed.success) return [];
+    return parsed.data.flatMap(entry => {
+      const template = templateSchema.safeParse(entry);
+      return template.success ? [template.data as Parsed<typeof templateSchema>] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+/** Throws if local storage is full or unavailable, as in some private browsing modes. */
+export const saveUserTemplates = (templates: UserTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const templatesToBlob = (templates: UserTemplate[]) =>
+  new Blob([JSON.stringify({ version: TEMPLATE_FILE_VERSION, templates }, null, 2)], { type: 'application/json' });
+
+/** Reads a shared template file. Throws if it is not JSON or does not match the file format. */
+export const parseTemplateFile = async (file: File): Promise<UserTemplate[]> => {
+  const result = templateFileSchema.safeParse(JSON.parse(await file.text()));
+  if (!result.success) {
+    throw new Error(`Invalid template file: ${result.error.issues[0]?.message ?? 'unknown error'}`);
+  }
+  return result.data.templates as Parsed<typeof templateSchema>[];
+};
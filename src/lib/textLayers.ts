@@ -0,0 +1,165 @@
+import type { CSSProperties } from 'react';
+import { previewLength } from '@/lib/gridStyle';
+import type { PixelRect } from '@/lib/layouts';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * Text and its look. `x`/`y` place the anchor as a fraction of the area the text is
+ * drawn in: the left edge, center or right edge of the text block depending on
+ * `align`, and always its vertical middle.
+ */
+export interface TextStyle {
+  text: string;
+  x: number;
+  y: number;
+  font: string;
+  /** Font size as a fraction of the canvas long edge, like the grid style lengths. */
+  size: number;
+  bold: boolean;
+  color: string;
+  align: TextAlign;
+  /** Outline width as a fraction of the font size; 0 draws no outline. */
+  strokeWidth: number;
+  strokeColor: string;
+  shadow: boolean;
+}
+
+/** A caption drawn over one cell or over the whole canvas. */
+export interface TextLayer extends TextStyle {
+  id: string;
+  /** Index of the page the text sits on. */
+  page: number;
+  /** Layout cell the text belongs to, or null for the whole canvas. */
+  cell: number | null;
+}
+
+export interface TextFont {
+  id: string;
+  /** Translation key of the font name. */
+  nameKey: string;
+  /** Latin faces first, then Chinese ones, so mixed text picks a matching face for each script. */
+  family: string;
+}
+
+export const TEXT_FONTS: TextFont[] = [
+  {
+    id: 'sans',
+    nameKey: 'fontSans',
+    family: 'system-ui, "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans SC", sans-serif',
+  },
+  {
+    id: 'serif',
+    nameKey: 'fontSerif',
+    family: 'Georgia, "Times New Roman", "Songti SC", "STSong", "SimSun", "Noto Serif SC", serif',
+  },
+  {
+    id: 'kai',
+    nameKey: 'fontKai',
+    family: 'Georgia, "Kaiti SC", "STKaiti", "KaiTi", "Noto Serif SC", serif',
+  },
+  {
+    id: 'mono',
+    nameKey: 'fontMono',
+    family: 'ui-monospace, Menlo, Consolas, "PingFang SC", "Microsoft YaHei", monospace',
+  },
+];
+
+export const MIN_TEXT_SIZE = 0.01;
+export const MAX_TEXT_SIZE = 0.2;
+export const MAX_TEXT_STROKE = 0.2;
+
+export const TEXT_LINE_HEIGHT = 1.25;
+
+/** Text shadow offset and blur as fractions of the font size. */
+export const TEXT_SHADOW = { offsetY: 0.05, blur: 0.15, color: 'rgba(0, 0, 0, 0.5)' };
+
+const ANCHORS: Record<TextAlign, number> = { left: 0, center: 0.5, right: 1 };
+
+export const createTextLayer = (page: number, cell: number | null): TextLayer => ({
+  id: `text-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  page,
+  cell,
+  text: cell === null ? '标题 Title' : '文字',
+  x: 0.5,
+  y: 0.5,
+  font: TEXT_FONTS[0].id,
+  size: cell === null ? 0.08 : 0.04,
+  bold: true,
+  color: '#ffffff',
+  align: 'center',
+  strokeWidth: 0,
+  strokeColor: '#000000',
+  shadow: true,
+});
+
+export const textsOnPage = (texts: TextLayer[], page: number) => texts.filter(layer => layer.page === page);
+
+/** Drops the texts of a deleted page and moves those on later pages down one index. */
+export const removePageTexts = (texts: TextLayer[], page: number): TextLayer[] =>
+  texts
+    .filter(layer => layer.page !== page)
+    .map(layer => (layer.page > page ? { ...layer, page: layer.page - 1 } : layer));
+
+export const fontFamily = (id: string) => (TEXT_FONTS.find(font => font.id === id) ?? TEXT_FONTS[0]).family;
+
+/** Positioning and typography of text in the preview; matches `drawText`. */
+export const textPreviewStyle = (layer: TextStyle, aspect: number): CSSProperties => {
+  const length = (value: number) => previewLength(value, aspect);
+  return {
+    position: 'absolute',
+    left: `${layer.x * 100}%`,
+    top: `${layer.y * 100}%`,
+    transform: `translate(${-ANCHORS[layer.align] * 100}%, -50%)`,
+    fontFamily: fontFamily(layer.font),
+    fontSize: length(layer.size),
+    fontWeight: layer.bold ? 700 : 400,
+    lineHeight: TEXT_LINE_HEIGHT,
+    color: layer.color,
+    textAlign: layer.align,
+    whiteSpace: 'pre',
+    WebkitTextStroke: layer.strokeWidth > 0 ? `${length(layer.size * layer.strokeWidth)} ${layer.strokeColor}` : undefined,
+    // Keep the outline behind the fill, as the canvas draws it
+    paintOrder: 'stroke fill',
+    textShadow: layer.shadow
+      ? `0 ${length(layer.size * TEXT_SHADOW.offsetY)} ${length(layer.size * TEXT_SHADOW.blur)} ${TEXT_SHADOW.color}`
+      : undefined,
+  };
+};
+
+/** Draws text into `rect`, the area it is placed in. `unit` is the canvas long edge in pixels. */
+export const drawText = (ctx: CanvasRenderingContext2D, layer: TextStyle, rect: PixelRect, unit: number) => {
+  const fontSize = layer.size * unit;
+  const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+  const lines = layer.text.split('\n');
+
+  ctx.save();
+  ctx.font = `${layer.bold ? 700 : 400} ${fontSize}px ${fontFamily(layer.font)}`;
+  ctx.textAlign = layer.align;
+  ctx.textBaseline = 'middle';
+
+  const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const left = rect.x + layer.x * rect.width - ANCHORS[layer.align] * blockWidth;
+  const lineX = left + ANCHORS[layer.align] * blockWidth;
+  const top = rect.y + layer.y * rect.height - (lines.length * lineHeight) / 2;
+  const lineY = (index: number) => top + (index + 0.5) * lineHeight;
+
+  if (layer.shadow) {
+    ctx.shadowColor = TEXT_SHADOW.color;
+    ctx.shadowOffsetY = fontSize * TEXT_SHADOW.offsetY;
+    ctx.shadowBlur = fontSize * TEXT_SHADOW.blur;
+  }
+
+  // The shadow goes with the first pass only, so the outline does not shade the fill
+  if (layer.strokeWidth > 0) {
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = fontSize * layer.strokeWidth;
+    ctx.strokeStyle = layer.strokeColor;
+    lines.forEach((line, index) => ctx.strokeText(line, lineX, lineY(index)));
+    ctx.shadowColor = 'transparent';
+  }
+
+  ctx.fillStyle = layer.color;
+  lines.forEach((line, index) => ctx.fillText(line, lineX, lineY(index)));
+  ctx.restore();
+};
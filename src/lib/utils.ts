@@ -1,6 +1,19 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { z } from "zod"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+type DeepRequired<T> = T extends (infer Item)[]
+  ? DeepRequired<Item>[]
+  : T extends object
+    ? { [Key in keyof T]-?: DeepRequired<T[Key]> }
+    : T
+
+/**
+ * What a zod schema parses to. The tsconfig is not strict, so `z.infer` marks every key
+ * optional, while parsing guarantees each one is there.
+ */
+export type Parsed<Schema extends z.ZodTypeAny> = DeepRequired<z.infer<Schema>>
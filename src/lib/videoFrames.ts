@@ -0,0 +1,66 @@
+import { canvasToBlob } from '@/lib/download';
+
+/** A still taken from a video, kept until the user adds it to the grid. */
+export interface VideoFrame {
+  /** Seconds from the start of the video. */
+  time: number;
+  file: File;
+  /** Object URL of the file, for the thumbnail. */
+  preview: string;
+}
+
+/** JPEG quality of captured frames. */
+const FRAME_QUALITY = 0.92;
+
+export const MAX_AUTO_FRAMES = 36;
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+/** Moves the video to `time` and resolves once the frame there can be drawn. */
+export const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Failed to seek video'));
+    };
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = time;
+  });
+
+/** `count` times spread over the video, each in the middle of its share, so the black first and last frames are avoided. */
+export const evenlySpacedTimes = (duration: number, count: number) =>
+  Array.from({ length: count }, (_, index) => ((index + 0.5) * duration) / count);
+
+/** "clip.mp4" at 83.25 seconds becomes "clip-01m23s250.jpg". */
+const frameFileName = (videoName: string, time: number) => {
+  const base = videoName.replace(/\.[^.]+$/, '');
+  const minutes = String(Math.floor(time / 60)).padStart(2, '0');
+  const seconds = String(Math.floor(time % 60)).padStart(2, '0');
+  const millis = String(Math.floor((time % 1) * 1000)).padStart(3, '0');
+  return `${base}-${minutes}m${seconds}s${millis}.jpg`;
+};
+
+/** Encodes the frame the video currently shows, at the video's own resolution. */
+export const captureFrame = async (video: HTMLVideoElement, videoName: string): Promise<VideoFrame> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas, 'image/jpeg', FRAME_QUALITY);
+  const time = video.currentTime;
+  const file = new File([blob], frameFileName(videoName, time), { type: 'image/jpeg' });
+  return { time, file, preview: URL.createObjectURL(file) };
+};
@@ -0,0 +1,135 @@
+import { fontFamily, TEXT_FONTS } from '@/lib/textLayers';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Mark stamped onto every exported image. Text and logo settings are both kept,
+ * so switching between them does not lose either.
+ */
+export interface Watermark {
+  enabled: boolean;
+  type: 'text' | 'logo';
+  text: string;
+  font: string;
+  color: string;
+  /** Logo as a PNG data URL, so it can be kept in local storage; null until one is uploaded. */
+  logo: string | null;
+  position: WatermarkPosition;
+  opacity: number;
+  /** Text height or logo width as a fraction of the image's long edge. */
+  size: number;
+  /** Repeats the mark diagonally across the whole image instead of placing it once. */
+  tiled: boolean;
+}
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'];
+
+export const WATERMARK_SIZE_RANGE: [number, number] = [0.01, 0.3];
+
+export const DEFAULT_WATERMARK: Watermark = {
+  enabled: false,
+  type: 'text',
+  text: '© ',
+  font: TEXT_FONTS[0].id,
+  color: '#ffffff',
+  logo: null,
+  position: 'bottom-right',
+  opacity: 0.6,
+  size: 0.03,
+  tiled: false,
+};
+
+/** Distance of a placed mark from the image edges, as a fraction of the long edge. */
+const WATERMARK_MARGIN = 0.03;
+
+/** Tiled marks run along this angle, in degrees, with gaps of this many mark sizes. */
+const TILE_ANGLE = -30;
+const TILE_SPACING = 1.5;
+
+/** Longest edge of a stored logo; larger uploads are scaled down to keep local storage small. */
+const MAX_LOGO_SIZE = 512;
+
+/** Reads an image file into a downscaled PNG data URL for `Watermark.logo`. */
+export const createLogoDataUrl = async (file: File): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/png');
+};
+
+/** Whether the watermark would draw anything. */
+export const isWatermarkActive = (watermark: Watermark) =>
+  watermark.enabled && (watermark.type === 'text' ? watermark.text.trim() !== '' : watermark.logo !== null);
+
+/**
+ * Stamps the watermark onto a finished `width`×`height` image. `logo` is the loaded
+ * logo image; text marks ignore it.
+ */
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  watermark: Watermark,
+  logo: HTMLImageElement | null,
+  width: number,
+  height: number
+) => {
+  const unit = Math.max(width, height);
+  const isText = watermark.type === 'text';
+  ctx.save();
+  ctx.font = `600 ${watermark.size * unit}px ${fontFamily(watermark.font)}`;
+
+  const markWidth = isText ? ctx.measureText(watermark.text).width : watermark.size * unit;
+  const markHeight = isText ? watermark.size * unit : logo ? markWidth * (logo.height / logo.width) : 0;
+  if (markWidth <= 0 || markHeight <= 0) {
+    ctx.restore();
+    return;
+  }
+
+  // Draws one mark centered on the current origin
+  const drawMark = () => {
+    if (isText) {
+      ctx.fillText(watermark.text, 0, 0);
+    } else if (logo) {
+      ctx.drawImage(logo, -markWidth / 2, -markHeight / 2, markWidth, markHeight);
+    }
+  };
+
+  ctx.globalAlpha = watermark.opacity;
+  ctx.fillStyle = watermark.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (watermark.tiled) {
+    const stepX = markWidth * (1 + TILE_SPACING);
+    const stepY = markHeight * (1 + TILE_SPACING * 2);
+    // The rotated rows must still cover the corners, so they span the diagonal
+    const reach = Math.hypot(width, height) / 2;
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((TILE_ANGLE * Math.PI) / 180);
+    for (let row = -Math.ceil(reach / stepY); row <= Math.ceil(reach / stepY); row++) {
+      // Alternate rows are offset by half a step, like bricks
+      const offset = row % 2 === 0 ? 0 : stepX / 2;
+      for (let column = -Math.ceil(reach / stepX) - 1; column <= Math.ceil(reach / stepX); column++) {
+        ctx.save();
+        ctx.translate(column * stepX + offset, row * stepY);
+        drawMark();
+        ctx.restore();
+      }
+    }
+  } else {
+    const margin = WATERMARK_MARGIN * unit;
+    const [vertical, horizontal] = watermark.position === 'center' ? ['center', 'center'] : watermark.position.split('-');
+    const x = horizontal === 'left' ? margin + markWidth / 2 : horizontal === 'right' ? width - margin - markWidth / 2 : width / 2;
+    const y = vertical === 'top' ? margin + markHeight / 2 : vertical === 'bottom' ? height - margin - markHeight / 2 : height / 2;
+    ctx.translate(x, y);
+    drawMark();
+  }
+
+  ctx.restore();
+};
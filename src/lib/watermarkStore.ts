@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { DEFAULT_WATERMARK, type Watermark } from '@/lib/watermark';
+import type { Parsed } from '@/lib/utils';
+
+const STORAGE_KEY = 'photo-grid-watermark';
+
+const watermarkSchema = z.object({
+  enabled: z.boolean(),
+  type: z.enum(['text', 'logo']),
+  text: z.string().max(200),
+  font: z.string(),
+  color: z.string(),
+  logo: z.string().startsWith('data:image/').nullable(),
+  position: z.enum(['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right']),
+  opacity: z.number().min(0).max(1),
+  size: z.number().positive().max(1),
+  tiled: z.boolean(),
+});
+
+/** The default watermark saved in this browser, or the built-in one if none is stored or it is unreadable. */
+export const loadWatermark = (): Watermark => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? watermarkSchema.safeParse(JSON.parse(stored)) : null;
+    return parsed?.success ? (parsed.data as Parsed<typeof watermarkSchema>) : DEFAULT_WATERMARK;
+  } catch {
+    return DEFAULT_WATERMARK;
+  }
+};
+
+/** Saves the default watermark. Throws if local storage is full, which a large logo can cause. */
+export const saveWatermark = (watermark: Watermark) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(watermark));
+};